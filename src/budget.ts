@@ -0,0 +1,208 @@
+/**
+ * Package size budget module (packed size, unpacked size and file count limits)
+ */
+
+import { SizeBudgetConfig } from "./config.ts";
+import { PackContents, PackFile, PackPreview } from "./pack.ts";
+import { Err, formatBytes, Logger, Ok, PublishError, Result } from "./utils.ts";
+
+export interface SizeBudget {
+  maxPackedSize?: number; // Bytes
+  maxUnpackedSize?: number; // Bytes
+  maxFiles?: number;
+}
+
+export interface BudgetViolation {
+  limit: "packed size" | "unpacked size" | "file count";
+  actual: number;
+  max: number;
+}
+
+/**
+ * Size units accepted in publishjs.json (case-insensitive)
+ */
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1000,
+  mb: 1000 * 1000,
+  gb: 1000 * 1000 * 1000,
+  kib: 1024,
+  mib: 1024 * 1024,
+  gib: 1024 * 1024 * 1024,
+};
+
+/**
+ * Parse a size in bytes or with a unit (e.g., 2048, "500 kB", "1.5MB")
+ */
+export function parseSize(value: number | string): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i);
+  if (!match) return null;
+
+  const multiplier = SIZE_UNITS[(match[2] || "b").toLowerCase()];
+  return multiplier ? Math.round(parseFloat(match[1]) * multiplier) : null;
+}
+
+/**
+ * Convert a configured budget to byte and file limits
+ */
+export function resolveSizeBudget(
+  registry: string,
+  config: SizeBudgetConfig,
+): Result<SizeBudget> {
+  const budget: SizeBudget = {};
+
+  for (const key of ["maxPackedSize", "maxUnpackedSize"] as const) {
+    if (config[key] === undefined) continue;
+
+    const size = parseSize(config[key]);
+    if (size === null) {
+      return Err(
+        new PublishError(
+          `Invalid ${key} for ${registry} in publishjs.json: ${config[key]}`,
+          "CONFIG_INVALID",
+        ),
+      );
+    }
+    budget[key] = size;
+  }
+
+  if (config.maxFiles !== undefined) {
+    if (!Number.isInteger(config.maxFiles) || config.maxFiles < 0) {
+      return Err(
+        new PublishError(
+          `Invalid maxFiles for ${registry} in publishjs.json: ${config.maxFiles}`,
+          "CONFIG_INVALID",
+        ),
+      );
+    }
+    budget.maxFiles = config.maxFiles;
+  }
+
+  return Ok(budget);
+}
+
+/**
+ * Check package contents against a budget
+ */
+export function checkSizeBudget(
+  contents: PackContents,
+  budget: SizeBudget,
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+
+  if (
+    budget.maxPackedSize !== undefined && contents.packedSize !== undefined &&
+    contents.packedSize > budget.maxPackedSize
+  ) {
+    violations.push({
+      limit: "packed size",
+      actual: contents.packedSize,
+      max: budget.maxPackedSize,
+    });
+  }
+
+  if (budget.maxUnpackedSize !== undefined && contents.totalSize > budget.maxUnpackedSize) {
+    violations.push({
+      limit: "unpacked size",
+      actual: contents.totalSize,
+      max: budget.maxUnpackedSize,
+    });
+  }
+
+  if (budget.maxFiles !== undefined && contents.files.length > budget.maxFiles) {
+    violations.push({
+      limit: "file count",
+      actual: contents.files.length,
+      max: budget.maxFiles,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Get the largest files of a package, biggest first
+ */
+export function getLargestFiles(contents: PackContents, count = 5): PackFile[] {
+  return [...contents.files].sort((a, b) => b.size - a.size).slice(0, count);
+}
+
+/**
+ * Format a violation (e.g., "packed size 1.2 MB > 1.0 MB")
+ */
+export function formatViolation(violation: BudgetViolation): string {
+  const format = violation.limit === "file count" ? String : formatBytes;
+  return `${violation.limit} ${format(violation.actual)} > ${format(violation.max)}`;
+}
+
+/**
+ * Check every preview against its registry's budget
+ *
+ * Returns the exceeded budgets when they are ignored, so they can be
+ * recorded in the publish summary.
+ */
+export function enforceSizeBudgets(
+  previews: PackPreview[],
+  budgets: Record<string, SizeBudgetConfig> = {},
+  ignore: boolean,
+  logger: Logger,
+): Result<string[]> {
+  const exceeded: string[] = [];
+  const contributors = new Set<string>();
+
+  for (const preview of previews) {
+    const { pkg } = preview;
+    const config = budgets[pkg.registry];
+    if (!config) continue;
+
+    const budgetResult = resolveSizeBudget(pkg.registry, config);
+    if (!budgetResult.ok) return Err(budgetResult.error);
+
+    if (
+      budgetResult.value.maxPackedSize !== undefined && preview.contents.packedSize === undefined
+    ) {
+      logger.warn(`${preview.registryName} doesn't report a packed size, maxPackedSize skipped`);
+    }
+
+    const violations = checkSizeBudget(preview.contents, budgetResult.value);
+    const label = `${pkg.name}@${pkg.version} (${preview.registryName})`;
+
+    if (violations.length === 0) {
+      logger.success(`${label} is within its size budget`);
+      continue;
+    }
+
+    const summary = `${label}: ${violations.map(formatViolation).join(", ")}`;
+    exceeded.push(summary);
+
+    if (ignore) {
+      logger.warn(`Size budget exceeded by ${summary}`);
+    } else {
+      logger.error(`Size budget exceeded by ${summary}`);
+    }
+    logger.info("Largest files:");
+    getLargestFiles(preview.contents).forEach((file) => {
+      logger.info(`  ${formatBytes(file.size).padStart(9)}  ${file.path}`);
+      contributors.add(`${file.path} (${formatBytes(file.size)})`);
+    });
+  }
+
+  if (exceeded.length > 0 && !ignore) {
+    logger.info("Reduce the package contents or use --ignore-budget to publish anyway");
+    return Err(
+      new PublishError(
+        `Size budget exceeded: ${exceeded.join("; ")}. Largest contributors: ${
+          [...contributors].join(", ")
+        }`,
+        "SIZE_BUDGET_EXCEEDED",
+        exceeded,
+      ),
+    );
+  }
+
+  return Ok(exceeded);
+}
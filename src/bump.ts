@@ -0,0 +1,308 @@
+/**
+ * Version bump module for keeping package manifests in sync
+ */
+
+import { exists } from "@std/fs";
+import { join, relative } from "@std/path";
+import { commitFiles, createTag } from "./git.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { JSR_CONFIG_FILES } from "./jsr_validator.ts";
+import { detectJsrPackage, detectNpmPackage, PackageInfo } from "./registry.ts";
+import {
+  compareSemver,
+  formatSemver,
+  incrementSemver,
+  isReleaseType,
+  parseSemver,
+} from "./semver.ts";
+import { Err, Logger, Ok, PublishError, Result, updateJsonFile } from "./utils.ts";
+import { detectWorkspaceManifests, updateDependents } from "./workspace.ts";
+
+export interface BumpOptions {
+  release: string; // major, minor, patch, prerelease or an explicit x.y.z
+  preid?: string;
+  packages?: string[]; // Workspace members to bump instead of the root package
+  commit?: boolean;
+  tag?: boolean;
+  tagPrefix?: string;
+  dryRun?: boolean;
+}
+
+export interface BumpedPackage {
+  name: string;
+  previousVersion: string;
+  version: string;
+}
+
+export interface BumpResult {
+  packages: BumpedPackage[];
+  files: string[];
+  tags: string[];
+}
+
+interface BumpTarget extends BumpedPackage {
+  manifests: PackageInfo[];
+}
+
+/**
+ * Find every manifest that carries a version (package.json, deno.json, jsr.json)
+ */
+async function detectManifests(path: string): Promise<PackageInfo[]> {
+  const manifests: PackageInfo[] = [];
+
+  // Private npm packages are still versioned, so don't filter them out here
+  const npmResult = await detectNpmPackage(path);
+  if (npmResult.ok) {
+    manifests.push(npmResult.value);
+  }
+
+  manifests.push(...await detectJsrManifests(path));
+
+  return manifests;
+}
+
+/**
+ * Find every JSR manifest of a directory that carries a version
+ *
+ * jsr.json takes precedence for publishing, but a deno.json(c) next to it may
+ * have a version too, and both must stay in sync.
+ */
+async function detectJsrManifests(path: string): Promise<PackageInfo[]> {
+  const jsrResult = await detectJsrPackage(path);
+  if (!jsrResult.ok) return [];
+
+  const manifests = [jsrResult.value];
+  for (const file of JSR_CONFIG_FILES) {
+    const manifestPath = join(path, file);
+    if (manifestPath === jsrResult.value.manifestPath || !await exists(manifestPath)) continue;
+
+    try {
+      const config = parseJsonc(await Deno.readTextFile(manifestPath)) as { version?: unknown };
+      if (typeof config.version === "string") {
+        manifests.push({ ...jsrResult.value, version: config.version, manifestPath });
+      }
+    } catch {
+      // Not a manifest we can read, so not one we can bump either
+    }
+  }
+
+  return manifests;
+}
+
+/**
+ * Pick the highest version among the detected manifests
+ */
+function resolveCurrentVersion(
+  manifests: PackageInfo[],
+  logger: Logger,
+): Result<string> {
+  const versions = manifests.map((m) => ({ info: m, parsed: parseSemver(m.version) }));
+
+  const invalid = versions.find((v) => !v.parsed);
+  if (invalid) {
+    return Err(
+      new PublishError(
+        `Invalid version in ${invalid.info.manifestPath}: ${invalid.info.version}`,
+        "INVALID_VERSION",
+      ),
+    );
+  }
+
+  const distinct = new Set(manifests.map((m) => m.version));
+  if (distinct.size > 1) {
+    logger.warn("Manifest versions are out of sync:");
+    manifests.forEach((m) => logger.warn(`  • ${m.manifestPath}: ${m.version}`));
+  }
+
+  const highest = versions.reduce((a, b) => compareSemver(a.parsed!, b.parsed!) >= 0 ? a : b);
+  return Ok(formatSemver(highest.parsed!));
+}
+
+/**
+ * Compute the next version from a release type or an explicit version
+ */
+export function computeNextVersion(
+  current: string,
+  release: string,
+  preid?: string,
+): Result<string> {
+  if (isReleaseType(release)) {
+    return incrementSemver(current, release, preid);
+  }
+
+  const explicit = parseSemver(release);
+  if (!explicit) {
+    return Err(
+      new PublishError(
+        `Invalid release: ${release}. Use major, minor, patch, prerelease or x.y.z`,
+        "INVALID_RELEASE",
+      ),
+    );
+  }
+
+  const next = formatSemver(explicit);
+  if (compareSemver(explicit, parseSemver(current)!) <= 0) {
+    return Err(
+      new PublishError(
+        `Version ${next} is not greater than current version ${current}`,
+        "VERSION_NOT_GREATER",
+      ),
+    );
+  }
+
+  return Ok(next);
+}
+
+/**
+ * Resolve the packages to bump and their next versions
+ */
+async function resolveTargets(
+  options: BumpOptions,
+  path: string,
+  logger: Logger,
+): Promise<Result<{ targets: BumpTarget[]; workspaceManifests: PackageInfo[] }>> {
+  const groups: { name: string; manifests: PackageInfo[] }[] = [];
+  let workspaceManifests: PackageInfo[] = [];
+
+  if (options.packages && options.packages.length > 0) {
+    workspaceManifests = await detectWorkspaceManifests(path);
+
+    for (const name of options.packages) {
+      const member = workspaceManifests.find((m) => m.name === name);
+      if (!member) {
+        return Err(
+          new PublishError(`Workspace package not found: ${name}`, "WORKSPACE_PACKAGE_NOT_FOUND"),
+        );
+      }
+
+      // Bump every manifest of the member directory together
+      const manifests = workspaceManifests.filter((m) => m.path === member.path);
+      for (const manifest of await detectJsrManifests(member.path)) {
+        if (!manifests.some((m) => m.manifestPath === manifest.manifestPath)) {
+          manifests.push(manifest);
+        }
+      }
+      groups.push({ name, manifests });
+    }
+  } else {
+    const manifests = await detectManifests(path);
+    if (manifests.length === 0) {
+      return Err(
+        new PublishError(
+          "No versioned manifest found (package.json, deno.json or jsr.json)",
+          "NO_MANIFEST",
+        ),
+      );
+    }
+    groups.push({ name: manifests[0].name, manifests });
+  }
+
+  const targets: BumpTarget[] = [];
+
+  for (const group of groups) {
+    const currentResult = resolveCurrentVersion(group.manifests, logger);
+    if (!currentResult.ok) return Err(currentResult.error);
+
+    const nextResult = computeNextVersion(currentResult.value, options.release, options.preid);
+    if (!nextResult.ok) return Err(nextResult.error);
+
+    targets.push({
+      ...group,
+      previousVersion: currentResult.value,
+      version: nextResult.value,
+    });
+  }
+
+  return Ok({ targets, workspaceManifests });
+}
+
+/**
+ * Bump the version across all detected manifests, then commit and tag
+ *
+ * With `packages`, the named workspace members are bumped instead and the
+ * version ranges of their internal dependents are updated to match.
+ */
+export async function bumpVersion(
+  options: BumpOptions,
+  path: string = Deno.cwd(),
+  logger: Logger,
+): Promise<Result<BumpResult>> {
+  const targetsResult = await resolveTargets(options, path, logger);
+  if (!targetsResult.ok) return Err(targetsResult.error);
+
+  const { targets, workspaceManifests } = targetsResult.value;
+  const isWorkspace = workspaceManifests.length > 0;
+
+  const packages = targets.map((t) => ({
+    name: t.name,
+    previousVersion: t.previousVersion,
+    version: t.version,
+  }));
+
+  // Workspace members are tagged as name@version, single packages as v1.2.3
+  const tags = options.tag
+    ? targets.map((t) =>
+      isWorkspace ? `${t.name}@${t.version}` : `${options.tagPrefix ?? "v"}${t.version}`
+    )
+    : [];
+
+  const commitMessage = isWorkspace
+    ? `chore(release): ${targets.map((t) => `${t.name}@${t.version}`).join(", ")}`
+    : `chore(release): ${targets[0].version}`;
+
+  targets.forEach((t) => logger.info(`Bumping ${t.name}: ${t.previousVersion} → ${t.version}`));
+
+  const files = targets.flatMap((t) => t.manifests.map((m) => relative(path, m.manifestPath)));
+
+  if (options.dryRun) {
+    logger.info("🏃 Dry run - no changes will be made");
+    files.forEach((file) => logger.info(`Would update: ${file}`));
+    if (isWorkspace) {
+      logger.info("Would update version ranges of internal dependents");
+    }
+    if (options.commit !== false) {
+      logger.info(`Would commit: "${commitMessage}"`);
+    }
+    tags.forEach((tag) => logger.info(`Would create tag: ${tag}`));
+    return Ok({ packages, files, tags });
+  }
+
+  const bumped = new Map<string, string>();
+
+  for (const target of targets) {
+    for (const manifest of target.manifests) {
+      const writeResult = await updateJsonFile(manifest.manifestPath, (data) => {
+        data.version = target.version;
+      });
+      if (!writeResult.ok) return Err(writeResult.error);
+
+      bumped.set(manifest.name, target.version);
+      logger.success(`Updated ${relative(path, manifest.manifestPath)}`);
+    }
+  }
+
+  if (isWorkspace) {
+    const dependentsResult = await updateDependents(workspaceManifests, bumped, logger);
+    if (!dependentsResult.ok) return Err(dependentsResult.error);
+
+    for (const manifestPath of dependentsResult.value) {
+      const file = relative(path, manifestPath);
+      if (!files.includes(file)) {
+        files.push(file);
+        logger.success(`Updated dependency ranges in ${file}`);
+      }
+    }
+  }
+
+  if (options.commit !== false) {
+    const commitResult = await commitFiles(files, commitMessage, path, logger);
+    if (!commitResult.ok) return Err(commitResult.error);
+  }
+
+  for (const tag of tags) {
+    const tagResult = await createTag(tag, undefined, path, logger);
+    if (!tagResult.ok) return Err(tagResult.error);
+  }
+
+  return Ok({ packages, files, tags });
+}
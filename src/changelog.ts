@@ -0,0 +1,249 @@
+/**
+ * Changelog generation module for publishjs
+ */
+
+import { exists } from "@std/fs";
+import { join } from "@std/path";
+import { ConventionalCommit, parseConventionalCommit } from "./conventional.ts";
+import { commitFiles, getCommits, getTags, GitCommit } from "./git.ts";
+import { compareSemver, formatSemver, parseSemver } from "./semver.ts";
+import { Err, Logger, Ok, PublishError, Result } from "./utils.ts";
+
+export const CHANGELOG_FILE = "CHANGELOG.md";
+
+const CHANGELOG_HEADER =
+  "# Changelog\n\nAll notable changes to this project will be documented in this file.\n";
+
+/**
+ * Changelog sections in display order, keyed by commit type
+ */
+const SECTIONS: { title: string; types: string[] }[] = [
+  { title: "Features", types: ["feat"] },
+  { title: "Bug Fixes", types: ["fix"] },
+  { title: "Performance Improvements", types: ["perf"] },
+  { title: "Reverts", types: ["revert"] },
+];
+
+export interface ChangelogEntry {
+  version: string;
+  previousTag: string | null;
+  commitCount: number;
+  markdown: string;
+}
+
+/**
+ * Find the tag preceding a ref among the semver tags
+ *
+ * If the ref is not a semver tag itself, the highest semver tag is returned.
+ */
+export function findPreviousTag(tags: string[], ref: string): string | null {
+  const current = parseSemver(ref);
+
+  const candidates = tags
+    .filter((tag) => tag !== ref)
+    .map((tag) => ({ tag, version: parseSemver(tag) }))
+    .filter((t) => t.version !== null)
+    .filter((t) => !current || compareSemver(t.version!, current) < 0)
+    .sort((a, b) => compareSemver(a.version!, b.version!));
+
+  return candidates.length > 0 ? candidates[candidates.length - 1].tag : null;
+}
+
+/**
+ * Get the version shown in a changelog heading for a tag or version string
+ */
+export function getChangelogVersion(ref: string): string {
+  const parsed = parseSemver(ref);
+  return parsed ? formatSemver(parsed) : ref;
+}
+
+/**
+ * Format a single commit as a changelog bullet
+ */
+function formatEntryLine(commit: ConventionalCommit): string {
+  const scope = commit.scope ? `**${commit.scope}:** ` : "";
+  return `- ${scope}${commit.description} (${commit.hash.substring(0, 7)})`;
+}
+
+/**
+ * Render a changelog section for a version from the commits it contains
+ */
+export function renderChangelogEntry(
+  version: string,
+  commits: GitCommit[],
+  date: Date = new Date(),
+): string {
+  const parsed: ConventionalCommit[] = [];
+  const other: GitCommit[] = [];
+
+  for (const commit of commits) {
+    // Release bookkeeping and merges don't belong in the changelog
+    if (/^chore\(release\)|^Merge /.test(commit.subject)) continue;
+
+    const conventional = parseConventionalCommit(commit);
+    if (conventional) {
+      parsed.push(conventional);
+    } else {
+      other.push(commit);
+    }
+  }
+
+  const lines = [`## ${version} - ${date.toISOString().substring(0, 10)}`, ""];
+
+  const breaking = parsed.filter((c) => c.breaking);
+  if (breaking.length > 0) {
+    lines.push("### ⚠ Breaking Changes", "", ...breaking.map(formatEntryLine), "");
+  }
+
+  for (const section of SECTIONS) {
+    const sectionCommits = parsed.filter((c) => section.types.includes(c.type));
+    if (sectionCommits.length > 0) {
+      lines.push(`### ${section.title}`, "", ...sectionCommits.map(formatEntryLine), "");
+    }
+  }
+
+  if (other.length > 0) {
+    lines.push(
+      "### Other Changes",
+      "",
+      ...other.map((c) => `- ${c.subject} (${c.hash.substring(0, 7)})`),
+      "",
+    );
+  }
+
+  if (lines.length === 2) {
+    lines.push("No notable changes.", "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Insert an entry above the previous releases, leaving earlier sections untouched
+ */
+export function insertChangelogEntry(
+  existing: string | null,
+  entry: string,
+  version: string,
+): Result<string> {
+  if (existing === null || existing.trim().length === 0) {
+    return Ok(`${CHANGELOG_HEADER}\n${entry}`);
+  }
+
+  const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (new RegExp(`^## \\[?v?${escaped}\\]?(\\s|$)`, "m").test(existing)) {
+    return Err(
+      new PublishError(
+        `${CHANGELOG_FILE} already has an entry for ${version}`,
+        "CHANGELOG_ENTRY_EXISTS",
+      ),
+    );
+  }
+
+  const firstSection = existing.search(/^## /m);
+
+  if (firstSection === -1) {
+    const separator = existing.endsWith("\n") ? "\n" : "\n\n";
+    return Ok(`${existing}${separator}${entry}`);
+  }
+
+  return Ok(
+    existing.substring(0, firstSection) + entry + "\n" + existing.substring(firstSection),
+  );
+}
+
+/**
+ * Generate the changelog entry for a release from the commits since the previous tag
+ */
+export async function generateChangelogEntry(
+  version: string,
+  options: { from?: string; to?: string } = {},
+  path: string = Deno.cwd(),
+): Promise<Result<ChangelogEntry>> {
+  const to = options.to || "HEAD";
+  let previousTag = options.from ?? null;
+
+  if (!previousTag) {
+    const tagsResult = await getTags(path);
+    if (!tagsResult.ok) return Err(tagsResult.error);
+
+    previousTag = findPreviousTag(tagsResult.value, parseSemver(to) ? to : version);
+  }
+
+  const commitsResult = await getCommits(previousTag, to, path);
+  if (!commitsResult.ok) return Err(commitsResult.error);
+
+  const heading = getChangelogVersion(version);
+
+  return Ok({
+    version: heading,
+    previousTag,
+    commitCount: commitsResult.value.length,
+    markdown: renderChangelogEntry(heading, commitsResult.value),
+  });
+}
+
+/**
+ * Add the entry to CHANGELOG.md, creating the file if it's missing
+ */
+export async function writeChangelogEntry(
+  entry: ChangelogEntry,
+  path: string = Deno.cwd(),
+): Promise<Result<void>> {
+  const changelogPath = join(path, CHANGELOG_FILE);
+
+  try {
+    const existing = await exists(changelogPath) ? await Deno.readTextFile(changelogPath) : null;
+
+    const updated = insertChangelogEntry(existing, entry.markdown, entry.version);
+    if (!updated.ok) return Err(updated.error);
+
+    await Deno.writeTextFile(changelogPath, updated.value);
+    return Ok(undefined);
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Failed to write ${CHANGELOG_FILE}`,
+        "CHANGELOG_WRITE_ERROR",
+        error,
+      ),
+    );
+  }
+}
+
+/**
+ * Generate, write and commit the changelog entry for a new tag
+ */
+export async function updateChangelog(
+  tagName: string,
+  options: { dryRun?: boolean } = {},
+  path: string = Deno.cwd(),
+  logger: Logger,
+): Promise<Result<void>> {
+  logger.info(`Generating ${CHANGELOG_FILE} entry for ${tagName}...`);
+
+  const entryResult = await generateChangelogEntry(tagName, {}, path);
+  if (!entryResult.ok) return Err(entryResult.error);
+
+  const entry = entryResult.value;
+  logger.debug(
+    `${entry.commitCount} commit(s) since ${entry.previousTag ?? "the first commit"}`,
+  );
+
+  if (options.dryRun) {
+    logger.info(`Would add to ${CHANGELOG_FILE}:\n`);
+    console.log(entry.markdown);
+    return Ok(undefined);
+  }
+
+  const writeResult = await writeChangelogEntry(entry, path);
+  if (!writeResult.ok) return Err(writeResult.error);
+  logger.success(`${CHANGELOG_FILE} updated`);
+
+  return await commitFiles(
+    [CHANGELOG_FILE],
+    `docs(changelog): ${entry.version}`,
+    path,
+    logger,
+  );
+}
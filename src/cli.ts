@@ -1,15 +1,32 @@
-#!/usr/bin/env -S deno run --allow-read --allow-write --allow-run --allow-env
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-run --allow-env --allow-net
 
 /**
  * CLI entry point for publishjs
  */
 
 import { Command } from "@cliffy/command";
+import { resolve } from "@std/path";
 import { publish, PublishOptions } from "./publisher.ts";
 import { Logger } from "./utils.ts";
 
 const VERSION = "0.1.0";
 
+/**
+ * Resolve the directory to run in (--cwd, or the current directory)
+ */
+function resolveWorkingDirectory(cwd: string | undefined, logger: Logger): string {
+  const path = resolve(cwd ?? Deno.cwd());
+
+  try {
+    if (Deno.statSync(path).isDirectory) return path;
+  } catch {
+    // Reported below
+  }
+
+  logger.error(`Directory not found: ${path}`);
+  Deno.exit(1);
+}
+
 async function main() {
   const command = new Command()
     .name("publishjs")
@@ -33,10 +50,22 @@ async function main() {
       "Create and publish a new tag",
       "publishjs --create-tag v1.0.1",
     )
+    .example(
+      "Create a tag for the version inferred from commits",
+      "publishjs --create-tag auto",
+    )
     .example(
       "Dry run (no changes)",
       "publishjs --dry-run",
     )
+    .example(
+      "Publish a package of a monorepo",
+      "publishjs --cwd packages/core --create-tag auto",
+    )
+    .globalOption(
+      "--cwd <dir:string>",
+      "Run in this directory (e.g., a package of a monorepo) instead of the current one",
+    )
     .option(
       "-b, --branch <branch:string>",
       "Publish a specific branch",
@@ -47,7 +76,7 @@ async function main() {
     )
     .option(
       "-c, --create-tag <tag:string>",
-      "Create and publish a new tag",
+      "Create and publish a new tag ('auto' infers the version from Conventional Commits)",
     )
     .option(
       "-r, --remote <remote:string>",
@@ -65,7 +94,50 @@ async function main() {
     )
     .option(
       "-f, --force",
-      "Force push (use with caution)",
+      "Force push with --force-with-lease (shows what would be overwritten)",
+      { default: false },
+    )
+    .option(
+      "--no-changelog",
+      "Don't add a CHANGELOG.md entry when creating a tag",
+    )
+    .option(
+      "--no-release",
+      "Don't create a GitHub/GitLab release when publishing a tag",
+    )
+    .option(
+      "--release-notes <file:string>",
+      "Use release notes from a file instead of generating them",
+    )
+    .option(
+      "--draft",
+      "Create the release as a draft",
+    )
+    .option(
+      "--prerelease",
+      "Mark the release as a prerelease (default: based on the tag version)",
+    )
+    .option(
+      "--otp <code:string>",
+      "npm one-time password for accounts with two-factor auth (or set NPM_OTP)",
+    )
+    .option(
+      "--ignore-budget",
+      "Publish even if a package exceeds its size budget",
+      { default: false },
+    )
+    .option(
+      "--skip-gates",
+      "Publish without running the quality gates (check, lint, fmt, test)",
+      { default: false },
+    )
+    .option(
+      "--override-branch-policy <reason:string>",
+      "Publish outside the release branches, recording who did and why in the tag",
+    )
+    .option(
+      "--allow-dirty",
+      "Let deno publish run with uncommitted changes (JSR)",
       { default: false },
     )
     .option(
@@ -80,6 +152,7 @@ async function main() {
     )
     .action(async (options) => {
       const logger = new Logger(options.verbose);
+      const path = resolveWorkingDirectory(options.cwd, logger);
 
       // Validate options
       const mutuallyExclusive = [
@@ -104,6 +177,16 @@ async function main() {
         skipRegistries: options.skipRegistries,
         registries: options.registry,
         force: options.force,
+        changelog: options.changelog,
+        release: options.release,
+        releaseNotes: options.releaseNotes,
+        draft: options.draft,
+        prerelease: options.prerelease,
+        otp: options.otp,
+        ignoreBudget: options.ignoreBudget,
+        allowDirty: options.allowDirty,
+        overrideBranchPolicy: options.overrideBranchPolicy,
+        skipGates: options.skipGates,
         dryRun: options.dryRun,
         verbose: options.verbose,
       };
@@ -112,7 +195,7 @@ async function main() {
       console.log(`\n📦 publishjs v${VERSION}\n`);
 
       // Execute publish workflow
-      const result = await publish(publishOptions);
+      const result = await publish(publishOptions, path);
 
       if (!result.ok) {
         logger.error(`Publish failed: ${result.error.message}`);
@@ -135,12 +218,16 @@ async function main() {
     .option("-v, --verbose", "Enable verbose logging", { default: false })
     .action(async (options) => {
       const logger = new Logger(options.verbose);
+      const path = resolveWorkingDirectory(options.cwd, logger);
 
       console.log(`\n🔍 publishjs setup check v${VERSION}\n`);
 
-      const { isGitInstalled, getGitStatus } = await import("./git.ts");
+      const { isGitInstalled, getGitStatus, getRepoRoot } = await import("./git.ts");
       const { getPrimaryRemote } = await import("./remote.ts");
-      const { detectRegistries } = await import("./registry.ts");
+      const { detectRegistries, getAdapter, isNpmRegistry, loadRegistryAdapters } = await import(
+        "./registry.ts"
+      );
+      const { loadConfig } = await import("./config.ts");
       const { verifyAuth } = await import("./auth.ts");
 
       // Check Git
@@ -149,11 +236,14 @@ async function main() {
       if (gitInstalled) {
         logger.success("Git is installed");
 
-        const statusResult = await getGitStatus();
+        const statusResult = await getGitStatus(path);
         if (statusResult.ok) {
           const status = statusResult.value;
           if (status.isRepo) {
-            logger.success("Current directory is a Git repository");
+            const rootResult = await getRepoRoot(path);
+            logger.success(
+              `Git repository: ${rootResult.ok ? rootResult.value : path}`,
+            );
             if (status.currentBranch) {
               logger.info(`Current branch: ${status.currentBranch}`);
             }
@@ -170,7 +260,7 @@ async function main() {
 
       // Check Remote
       logger.section("Remote Repository");
-      const remoteResult = await getPrimaryRemote();
+      const remoteResult = await getPrimaryRemote(path);
       if (remoteResult.ok) {
         const remote = remoteResult.value;
         logger.success(`Remote: ${remote.name}`);
@@ -186,7 +276,7 @@ async function main() {
           remote.url,
           remote.platform,
           "origin",
-          Deno.cwd(),
+          path,
           logger,
         );
         if (authResult.ok) {
@@ -200,15 +290,59 @@ async function main() {
 
       // Check Registries
       logger.section("Package Registries");
-      const registries = await detectRegistries();
+      const configResult = await loadConfig(path);
+      const adaptersResult = configResult.ok
+        ? await loadRegistryAdapters(configResult.value, path, logger)
+        : configResult;
+      if (!adaptersResult.ok) {
+        logger.error(adaptersResult.error.message);
+        Deno.exit(1);
+      }
+      const adapters = adaptersResult.value;
+
+      const registries = await detectRegistries(path, adapters);
       if (registries.length > 0) {
         registries.forEach((reg) => {
-          logger.success(`${reg.registry}: ${reg.name}@${reg.version}`);
+          const name = getAdapter(adapters, reg.registry)!.name;
+          logger.success(`${name}: ${reg.name}@${reg.version}`);
         });
       } else {
         logger.info("No package registries detected (npm/jsr)");
       }
 
+      // Check Workspace
+      const { detectWorkspaceManifests } = await import("./workspace.ts");
+      const members = await detectWorkspaceManifests(path, adapters);
+      if (members.length > 0) {
+        logger.section("Workspace Packages");
+        members.forEach((pkg) => {
+          const name = getAdapter(adapters, pkg.registry)!.name;
+          const label = `${name}: ${pkg.name}@${pkg.version}`;
+          if (pkg.private) {
+            logger.info(`${label} (private)`);
+          } else {
+            logger.success(label);
+          }
+        });
+      }
+
+      // Check Package Manager (used for npm publishing)
+      const npmPackages = [...registries, ...members].filter((pkg) => isNpmRegistry(pkg.registry));
+      if (npmPackages.length > 0) {
+        logger.section("Package Manager");
+        const { detectPackageManager } = await import("./package_manager.ts");
+        const packageManagerResult = await detectPackageManager(
+          path,
+          configResult.ok ? configResult.value.npm?.packageManager : undefined,
+        );
+        if (packageManagerResult.ok) {
+          const { manager, version, source } = packageManagerResult.value;
+          logger.success(`Publishing with ${manager}${version ? ` ${version}` : ""} (${source})`);
+        } else {
+          logger.error(packageManagerResult.error.message);
+        }
+      }
+
       console.log("\n✅ Setup check complete\n");
     });
 
@@ -226,10 +360,11 @@ async function main() {
       const { autoInitializeGit, needsGitInit } = await import("./auto_init.ts");
       const { autoCreateRemote, needsRemoteSetup } = await import("./auto_remote.ts");
       const { validateJsrConfig, autoFixJsrConfig } = await import("./jsr_validator.ts");
+      const { validateNpmConfig, autoFixNpmConfig } = await import("./npm_validator.ts");
       const { displayJsrTokenStatus } = await import("./jsr_auth.ts");
       const { isGitInstalled } = await import("./git.ts");
 
-      const path = Deno.cwd();
+      const path = resolveWorkingDirectory(options.cwd, logger);
 
       // Step 1: Check Git installation
       logger.section("Step 1: Git Setup");
@@ -287,18 +422,44 @@ async function main() {
           logger.success(`Found ${reg.registry}: ${reg.name}@${reg.version}`);
         });
 
+        let step = 4;
+
+        // Validate npm if detected (recommendations are offered here too)
+        const hasNpm = registries.some((r) => r.registry === "npm");
+
+        if (hasNpm) {
+          logger.section(`Step ${step++}: npm Configuration`);
+
+          const npmValidationResult = await validateNpmConfig(path);
+
+          if (npmValidationResult.ok) {
+            const validation = npmValidationResult.value;
+
+            if (!validation.isValid || validation.suggestions.length > 0) {
+              logger.warn("npm configuration can be improved");
+              const fixResult = await autoFixNpmConfig(validation, path, logger);
+
+              if (!fixResult.ok) {
+                logger.warn("npm configuration not fixed");
+              }
+            } else {
+              logger.success("npm configuration is valid");
+            }
+          }
+        }
+
         // Validate JSR if detected
         const hasJsr = registries.some((r) => r.registry === "jsr");
 
         if (hasJsr) {
-          logger.section("Step 4: JSR Configuration");
+          logger.section(`Step ${step++}: JSR Configuration`);
 
           const jsrValidationResult = await validateJsrConfig(path);
 
           if (jsrValidationResult.ok) {
             const validation = jsrValidationResult.value;
 
-            if (!validation.isValid) {
+            if (!validation.isValid || validation.undocumentedModules.length > 0) {
               logger.warn("JSR configuration has issues");
               const fixResult = await autoFixJsrConfig(validation, path, logger);
 
@@ -311,7 +472,7 @@ async function main() {
           }
 
           // Check JSR token
-          logger.section("Step 5: JSR Authentication");
+          logger.section(`Step ${step++}: JSR Authentication`);
           displayJsrTokenStatus(logger);
         }
       }
@@ -326,6 +487,173 @@ async function main() {
       console.log();
     });
 
+  // Add changelog command for previewing the next entry
+  command
+    .command("changelog [version:string]")
+    .description(
+      "Preview the CHANGELOG.md entry for a release (defaults to the inferred next version)",
+    )
+    .option("--from <ref:string>", "Start of the commit range (defaults to the previous tag)")
+    .option("--to <ref:string>", "End of the commit range", { default: "HEAD" })
+    .option("-v, --verbose", "Enable verbose logging", { default: false })
+    .action(async (options, version) => {
+      const logger = new Logger(options.verbose);
+      const path = resolveWorkingDirectory(options.cwd, logger);
+
+      const { generateChangelogEntry } = await import("./changelog.ts");
+      const { inferNextVersion } = await import("./conventional.ts");
+
+      let releaseVersion = version;
+
+      if (!releaseVersion && options.to !== "HEAD") {
+        releaseVersion = options.to;
+      }
+
+      if (!releaseVersion) {
+        const inferenceResult = await inferNextVersion(path);
+        if (!inferenceResult.ok) {
+          logger.error(`Could not infer next version: ${inferenceResult.error.message}`);
+          Deno.exit(1);
+        }
+        releaseVersion = inferenceResult.value.nextVersion;
+      }
+
+      const entryResult = await generateChangelogEntry(releaseVersion, {
+        from: options.from,
+        to: options.to,
+      }, path);
+
+      if (!entryResult.ok) {
+        logger.error(`Changelog generation failed: ${entryResult.error.message}`);
+        Deno.exit(1);
+      }
+
+      const entry = entryResult.value;
+      logger.info(
+        `${entry.commitCount} commit(s) since ${entry.previousTag ?? "the first commit"}\n`,
+      );
+      console.log(entry.markdown);
+    });
+
+  // Add bump command for keeping manifest versions in sync
+  command
+    .command("bump <release:string>")
+    .description(
+      "Bump the version in package.json and deno.json/jsr.json (major, minor, patch, prerelease or x.y.z)",
+    )
+    .option("--preid <preid:string>", "Prerelease identifier (e.g., rc, beta)")
+    .option(
+      "-p, --package <names...:string>",
+      "Workspace packages to bump (internal dependents' ranges are updated)",
+    )
+    .option("-t, --tag", "Create a matching Git tag", { default: false })
+    .option("--tag-prefix <prefix:string>", "Prefix for the created tag", {
+      default: "v",
+    })
+    .option("--no-commit", "Update manifests without committing")
+    .option("-d, --dry-run", "Show what would be done without making changes", {
+      default: false,
+    })
+    .option("-v, --verbose", "Enable verbose logging", { default: false })
+    .action(async (options, release) => {
+      const logger = new Logger(options.verbose);
+      const path = resolveWorkingDirectory(options.cwd, logger);
+
+      if (options.tag && !options.commit) {
+        logger.error("Option --tag requires the version change to be committed");
+        Deno.exit(1);
+      }
+
+      console.log(`\n🔖 publishjs bump v${VERSION}\n`);
+
+      const { bumpVersion } = await import("./bump.ts");
+
+      const result = await bumpVersion(
+        {
+          release,
+          preid: options.preid,
+          packages: options.package,
+          commit: options.commit,
+          tag: options.tag,
+          tagPrefix: options.tagPrefix,
+          dryRun: options.dryRun,
+        },
+        path,
+        logger,
+      );
+
+      if (!result.ok) {
+        logger.error(`Bump failed: ${result.error.message}`);
+        Deno.exit(1);
+      }
+
+      console.log();
+      result.value.packages.forEach((pkg) => {
+        logger.success(`🎉 ${pkg.name}@${pkg.version}`);
+      });
+    });
+
+  // Add pack command for previewing package contents
+  command
+    .command("pack")
+    .description(
+      "List the files each package would upload, with sizes and changes since the last release",
+    )
+    .option("--against <ref:string>", "Compare with this ref (defaults to the latest release tag)")
+    .option("-v, --verbose", "Enable verbose logging", { default: false })
+    .action(async (options) => {
+      const logger = new Logger(options.verbose);
+      const path = resolveWorkingDirectory(options.cwd, logger);
+
+      console.log(`\n📦 publishjs pack v${VERSION}\n`);
+
+      const { loadConfig } = await import("./config.ts");
+      const { detectRegistries, getAdapter, loadRegistryAdapters } = await import(
+        "./registry.ts"
+      );
+      const { detectWorkspacePackages } = await import("./workspace.ts");
+      const { cleanupNpmBuilds } = await import("./npm_build.ts");
+      const { displayPackPreview, findPackBaseline, previewPackContents } = await import(
+        "./pack.ts"
+      );
+
+      const configResult = await loadConfig(path);
+      const adaptersResult = configResult.ok
+        ? await loadRegistryAdapters(configResult.value, path, logger)
+        : configResult;
+      if (!adaptersResult.ok) {
+        logger.error(adaptersResult.error.message);
+        Deno.exit(1);
+      }
+      const adapters = adaptersResult.value;
+
+      const packages = [
+        ...await detectRegistries(path, adapters),
+        ...await detectWorkspacePackages(path, adapters),
+      ];
+      if (packages.length === 0) {
+        logger.info("No package registries detected (npm/jsr)");
+        return;
+      }
+
+      const baseline = options.against ?? await findPackBaseline("HEAD", path);
+      const previewResult = await previewPackContents(
+        packages.map((pkg) => ({ pkg, adapter: getAdapter(adapters, pkg.registry)! })),
+        baseline,
+        path,
+        logger,
+      );
+      await cleanupNpmBuilds();
+
+      if (!previewResult.ok) {
+        logger.error(`Pack preview failed: ${previewResult.error.message}`);
+        Deno.exit(1);
+      }
+
+      previewResult.value.forEach(displayPackPreview);
+      console.log();
+    });
+
   try {
     await command.parse(Deno.args);
   } catch (error) {
@@ -0,0 +1,112 @@
+/**
+ * Project configuration module for publishjs
+ */
+
+import { exists } from "@std/fs";
+import { join } from "@std/path";
+import { Err, Ok, PublishError, Result } from "./utils.ts";
+
+export const CONFIG_FILE = "publishjs.json";
+
+// Branches a force push must be confirmed for by typing their name
+export const DEFAULT_PROTECTED_BRANCHES = ["main", "master"];
+
+export interface ReleaseConfig {
+  apiUrl?: string; // Platform REST API base URL (e.g., GitHub Enterprise)
+  draft?: boolean;
+  prerelease?: boolean;
+}
+
+export interface NpmTargetConfig {
+  name?: string; // Display name (defaults to the registry host)
+  registryUrl: string;
+  tokenEnv?: string; // Environment variable holding the auth token
+}
+
+export interface NpmBuildConfig {
+  outDir?: string; // Output directory, relative to the package (a temporary directory if unset)
+  name?: string; // npm package name (defaults to the Deno config name)
+  shims?: { deno?: boolean }; // Add the Deno namespace shim for Node.js
+  package?: Record<string, unknown>; // Extra package.json fields (e.g., engines, keywords)
+}
+
+export interface NpmConfig {
+  registryUrl?: string; // Default registry (overrides `registry` in .npmrc)
+  scopes?: Record<string, string>; // Scope to registry URL, e.g. { "@acme": "https://..." }
+  targets?: NpmTargetConfig[]; // Publish to each of these registries instead
+  packageManager?: string; // npm, pnpm, yarn or bun (detected from lockfiles if unset)
+  build?: NpmBuildConfig; // Build the npm package from deno.json instead of using package.json
+}
+
+export interface JsrConfig {
+  apiUrl?: string; // JSR API used for the already-published check
+}
+
+export interface RegistryAdapterConfig {
+  module: string; // Path to the adapter module, relative to the project root
+  options?: Record<string, unknown>; // Passed to the module's default export if it's a function
+}
+
+export interface SizeBudgetConfig {
+  maxPackedSize?: number | string; // Bytes, or a size such as "500 kB"
+  maxUnpackedSize?: number | string;
+  maxFiles?: number;
+}
+
+// A shell command, or a Deno module run with `deno run -A`
+export type HookCommand = string | { command?: string; module?: string };
+
+// Hook name (prePublish, preRegistry:npm, ...) to the commands it runs
+export type HooksConfig = Record<string, HookCommand | HookCommand[]>;
+
+// A shell command, or a named one (shown in the gate status)
+export type GateConfig = string | { name?: string; command: string };
+
+export interface PublishConfig {
+  release?: ReleaseConfig;
+  npm?: NpmConfig;
+  jsr?: JsrConfig;
+  registries?: RegistryAdapterConfig[]; // Additional registry adapters
+  budgets?: Record<string, SizeBudgetConfig>; // Size limits by registry id (npm, jsr, npm:<target>)
+  hooks?: HooksConfig; // Commands run around the publish phases
+  gates?: GateConfig[]; // Checks run before pushing (defaults to the check/lint/fmt/test tasks)
+  protectedBranches?: string[]; // Globs, e.g. "release/*" (defaults to main and master)
+  releaseBranches?: string[]; // Globs of the branches to publish from (any branch if unset)
+}
+
+/**
+ * Load publishjs.json from the project root (empty config if missing)
+ */
+export async function loadConfig(
+  path: string = Deno.cwd(),
+): Promise<Result<PublishConfig>> {
+  const configPath = join(path, CONFIG_FILE);
+
+  if (!await exists(configPath)) {
+    return Ok({});
+  }
+
+  try {
+    const content = await Deno.readTextFile(configPath);
+    const config = JSON.parse(content);
+
+    if (typeof config !== "object" || config === null || Array.isArray(config)) {
+      return Err(
+        new PublishError(
+          `${CONFIG_FILE} must contain a JSON object`,
+          "CONFIG_INVALID",
+        ),
+      );
+    }
+
+    return Ok(config as PublishConfig);
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Failed to parse ${CONFIG_FILE}`,
+        "CONFIG_PARSE_ERROR",
+        error,
+      ),
+    );
+  }
+}
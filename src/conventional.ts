@@ -0,0 +1,164 @@
+/**
+ * Conventional Commits parsing and version inference module
+ */
+
+import { getCommits, getLatestTag, GitCommit } from "./git.ts";
+import { detectRegistries } from "./registry.ts";
+import { formatSemver, incrementSemver, parseSemver, ReleaseType } from "./semver.ts";
+import { Err, Logger, Ok, Result } from "./utils.ts";
+
+export interface ConventionalCommit {
+  hash: string;
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  description: string;
+  body: string;
+}
+
+export interface VersionInference {
+  previousTag: string | null;
+  currentVersion: string;
+  nextVersion: string;
+  tagName: string;
+  release: ReleaseType;
+  commits: ConventionalCommit[];
+  drivers: ConventionalCommit[]; // Commits that decided the release type
+}
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/;
+const BREAKING_PATTERN = /^BREAKING[ -]CHANGE:/m;
+
+/**
+ * Parse a commit into its Conventional Commit parts (null if it doesn't follow the format)
+ */
+export function parseConventionalCommit(commit: GitCommit): ConventionalCommit | null {
+  const match = commit.subject.trim().match(HEADER_PATTERN);
+  if (!match) return null;
+
+  return {
+    hash: commit.hash,
+    type: match[1].toLowerCase(),
+    scope: match[2] || undefined,
+    breaking: match[3] === "!" || BREAKING_PATTERN.test(commit.body),
+    description: match[4].trim(),
+    body: commit.body,
+  };
+}
+
+/**
+ * Determine the release type implied by a set of commits
+ *
+ * Before 1.0.0, breaking changes only bump the minor version.
+ */
+export function inferReleaseType(
+  commits: ConventionalCommit[],
+  currentVersion: string,
+): { release: ReleaseType; drivers: ConventionalCommit[] } {
+  const isInitialDevelopment = parseSemver(currentVersion)?.major === 0;
+
+  const breaking = commits.filter((c) => c.breaking);
+  if (breaking.length > 0) {
+    return { release: isInitialDevelopment ? "minor" : "major", drivers: breaking };
+  }
+
+  const features = commits.filter((c) => c.type === "feat");
+  if (features.length > 0) {
+    return { release: "minor", drivers: features };
+  }
+
+  const fixes = commits.filter((c) => c.type === "fix" || c.type === "perf");
+  return { release: "patch", drivers: fixes };
+}
+
+/**
+ * Get the current version from the latest tag, falling back to the manifests
+ */
+async function resolveCurrentVersion(
+  previousTag: string | null,
+  path: string,
+): Promise<string> {
+  if (previousTag) {
+    const parsed = parseSemver(previousTag);
+    if (parsed) {
+      return formatSemver(parsed);
+    }
+  }
+
+  const registries = await detectRegistries(path);
+  const versioned = registries.find((r) => parseSemver(r.version));
+
+  return versioned?.version ?? "0.0.0";
+}
+
+/**
+ * Infer the next version from Conventional Commits since the last tag
+ */
+export async function inferNextVersion(
+  path: string = Deno.cwd(),
+): Promise<Result<VersionInference>> {
+  const previousTag = await getLatestTag("HEAD", path);
+
+  const commitsResult = await getCommits(previousTag, "HEAD", path);
+  if (!commitsResult.ok) return Err(commitsResult.error);
+
+  const commits = commitsResult.value
+    .map(parseConventionalCommit)
+    .filter((c): c is ConventionalCommit => c !== null);
+
+  const currentVersion = await resolveCurrentVersion(previousTag, path);
+  const { release, drivers } = inferReleaseType(commits, currentVersion);
+
+  const nextResult = incrementSemver(currentVersion, release);
+  if (!nextResult.ok) return Err(nextResult.error);
+
+  // Keep the tag naming scheme of the previous tag
+  const prefix = previousTag && !previousTag.startsWith("v") ? "" : "v";
+
+  return Ok({
+    previousTag,
+    currentVersion,
+    nextVersion: nextResult.value,
+    tagName: `${prefix}${nextResult.value}`,
+    release,
+    commits,
+    drivers,
+  });
+}
+
+/**
+ * Format a commit as a short one-line summary
+ */
+export function formatCommitSummary(commit: ConventionalCommit): string {
+  const scope = commit.scope ? `(${commit.scope})` : "";
+  const breaking = commit.breaking ? "!" : "";
+  return `${commit.hash.substring(0, 7)} ${commit.type}${scope}${breaking}: ${commit.description}`;
+}
+
+/**
+ * Display the inferred version and the commits that drove the decision
+ */
+export function displayVersionInference(
+  inference: VersionInference,
+  logger: Logger,
+): void {
+  const since = inference.previousTag ?? "the first commit";
+
+  logger.info(
+    `${inference.commits.length} conventional commit(s) since ${since}`,
+  );
+
+  if (inference.drivers.length === 0) {
+    logger.info("No feature or fix commits found, defaulting to a patch release");
+  } else {
+    logger.info(`A ${inference.release} release is required by:`);
+    inference.drivers.slice(0, 10).forEach((c) => console.log(`  • ${formatCommitSummary(c)}`));
+    if (inference.drivers.length > 10) {
+      logger.info(`  ... and ${inference.drivers.length - 10} more`);
+    }
+  }
+
+  logger.success(
+    `Next version: ${inference.currentVersion} → ${inference.nextVersion} (${inference.tagName})`,
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Quality gates module (checks that must pass before anything is pushed)
+ */
+
+import { exists } from "@std/fs";
+import { join } from "@std/path";
+import { GateConfig, PublishConfig } from "./config.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { detectPackageManager } from "./package_manager.ts";
+import {
+  CommandError,
+  Err,
+  executeShellCommand,
+  Logger,
+  Ok,
+  PublishError,
+  Result,
+} from "./utils.ts";
+
+export interface QualityGate {
+  name: string; // Shown in the status line
+  command: string; // Shell command run from the project root
+}
+
+// Tasks (deno.json) or scripts (package.json) used when no gates are configured
+export const DEFAULT_GATE_TASKS = ["check", "lint", "fmt:check", "test"];
+
+/**
+ * Read a record field (tasks, scripts) from a JSON/JSONC file, if it exists
+ */
+async function readRecordField(
+  filePath: string,
+  field: string,
+): Promise<Record<string, unknown>> {
+  if (!await exists(filePath)) return {};
+
+  try {
+    const content = parseJsonc(await Deno.readTextFile(filePath)) as Record<string, unknown>;
+    const value = content[field];
+    return typeof value === "object" && value !== null ? value as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Normalize a configured gate (a bare string is both the name and the command)
+ */
+export function toQualityGate(gate: GateConfig): QualityGate {
+  return typeof gate === "string"
+    ? { name: gate, command: gate }
+    : { name: gate.name ?? gate.command, command: gate.command };
+}
+
+/**
+ * Resolve the gates of a project: the configured ones, or the default tasks
+ *
+ * A default task comes from deno.json (or deno.jsonc) `tasks` first, then
+ * package.json `scripts`, run with the project's package manager.
+ */
+export async function resolveGates(
+  path: string,
+  config: PublishConfig = {},
+): Promise<Result<QualityGate[]>> {
+  if (config.gates) {
+    const invalid = config.gates.find((gate) =>
+      typeof gate === "string" ? !gate.trim() : !gate?.command
+    );
+    if (invalid !== undefined) {
+      return Err(
+        new PublishError(
+          `Invalid gate in publishjs.json: ${JSON.stringify(invalid)} (needs a command)`,
+          "CONFIG_INVALID",
+        ),
+      );
+    }
+    return Ok(config.gates.map(toQualityGate));
+  }
+
+  const denoConfigPath = await exists(join(path, "deno.json"))
+    ? join(path, "deno.json")
+    : join(path, "deno.jsonc");
+  const tasks = await readRecordField(denoConfigPath, "tasks");
+  const scripts = await readRecordField(join(path, "package.json"), "scripts");
+
+  const scriptNames = DEFAULT_GATE_TASKS.filter((name) => !(name in tasks) && name in scripts);
+  let runner = "npm";
+  if (scriptNames.length > 0) {
+    const packageManagerResult = await detectPackageManager(path, config.npm?.packageManager);
+    if (!packageManagerResult.ok) return Err(packageManagerResult.error);
+    runner = packageManagerResult.value.manager;
+  }
+
+  const gates: QualityGate[] = [];
+  for (const name of DEFAULT_GATE_TASKS) {
+    if (name in tasks) {
+      gates.push({ name, command: `deno task ${name}` });
+    } else if (scriptNames.includes(name)) {
+      gates.push({ name, command: `${runner} run ${name}` });
+    }
+  }
+
+  return Ok(gates);
+}
+
+/**
+ * Format a duration in milliseconds (e.g., 850ms, 12.3s)
+ */
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Run the gates in order, reporting each one as it finishes
+ *
+ * Stops at the first failing gate with GATE_FAILED and shows its output.
+ */
+export async function runGates(
+  gates: QualityGate[],
+  path: string,
+  logger: Logger,
+): Promise<Result<void>> {
+  for (const [index, gate] of gates.entries()) {
+    const step = `[${index + 1}/${gates.length}]`;
+    logger.info(`${step} ${gate.name}: ${gate.command}`);
+
+    const start = performance.now();
+    const result = await executeShellCommand(gate.command, { cwd: path });
+    const duration = formatDuration(performance.now() - start);
+
+    if (!result.ok) {
+      logger.error(`${step} ${gate.name} failed (${duration})`);
+      const error = result.error;
+      if (error instanceof CommandError) {
+        [error.stdout, error.stderr].filter(Boolean).forEach((output) => logger.error(output));
+      } else {
+        logger.error(error.message);
+      }
+      return Err(
+        new PublishError(
+          `Quality gate failed: ${gate.name}. Fix it or pass --skip-gates.`,
+          "GATE_FAILED",
+          result.error,
+        ),
+      );
+    }
+
+    logger.success(`${step} ${gate.name} passed (${duration})`);
+    if (result.value) logger.debug(result.value);
+  }
+
+  return Ok(undefined);
+}
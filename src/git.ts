@@ -2,11 +2,16 @@
  * Git operations module for publishjs
  */
 
-import { exists } from "@std/fs";
-import { join } from "@std/path";
-import { executeCommand, Err, Logger, Ok, PublishError, Result } from "./utils.ts";
+import { CommandError, executeCommand, Err, Logger, Ok, PublishError, Result } from "./utils.ts";
 
-export interface GitStatus {
+export interface UpstreamStatus {
+  upstream: string | null; // e.g. origin/main (null if the branch has none)
+  ahead: number; // Local commits not on the upstream
+  behind: number; // Upstream commits not on the local branch
+  diverged: boolean; // Both ahead and behind
+}
+
+export interface GitStatus extends UpstreamStatus {
   isRepo: boolean;
   hasRemote: boolean;
   currentBranch: string | null;
@@ -18,6 +23,34 @@ export interface GitRemote {
   url: string;
 }
 
+export interface GitCommit {
+  hash: string;
+  subject: string;
+  body: string;
+}
+
+export enum PushStatus {
+  UPDATED = "updated", // Fast-forward
+  FORCED = "forced",
+  NEW = "new",
+  DELETED = "deleted",
+  UP_TO_DATE = "up to date",
+  REJECTED = "rejected",
+}
+
+export interface PushedRef {
+  ref: string; // Remote ref, e.g. refs/tags/v1.0.0
+  status: PushStatus;
+  summary: string; // e.g. 21891a3..cafda24 or [rejected] (fetch first)
+}
+
+export interface ForcePushLease {
+  ref: string; // Pushed ref, e.g. refs/heads/main
+  expected: string; // Remote value the push may replace ("" if the ref must not exist yet)
+  local: string; // Local value that replaces it
+  discarded: GitCommit[]; // Remote commits the push drops (branches only)
+}
+
 /**
  * Check if Git is installed on the system
  */
@@ -27,11 +60,13 @@ export async function isGitInstalled(): Promise<boolean> {
 }
 
 /**
- * Check if the current directory is a Git repository
+ * Check if a directory is inside a Git repository
+ *
+ * Also true in subdirectories and in worktrees, where .git is a file.
  */
 export async function isGitRepository(path: string = Deno.cwd()): Promise<boolean> {
-  const gitDir = join(path, ".git");
-  return await exists(gitDir);
+  const result = await executeCommand("git", ["rev-parse", "--git-dir"], { cwd: path });
+  return result.ok;
 }
 
 /**
@@ -61,9 +96,13 @@ export async function initGitRepository(
 
 /**
  * Get the current Git status
+ *
+ * An upstream that can't be compared (e.g., the fetch failed) is reported as
+ * unknown: no upstream, neither ahead nor behind.
  */
 export async function getGitStatus(
   path: string = Deno.cwd(),
+  options?: { fetch?: boolean },
 ): Promise<Result<GitStatus>> {
   const isRepo = await isGitRepository(path);
 
@@ -73,14 +112,18 @@ export async function getGitStatus(
       hasRemote: false,
       currentBranch: null,
       isDirty: false,
+      upstream: null,
+      ahead: 0,
+      behind: 0,
+      diverged: false,
     });
   }
 
-  // Get current branch
+  // Get current branch (empty on a detached HEAD)
   const branchResult = await executeCommand("git", ["branch", "--show-current"], {
     cwd: path,
   });
-  const currentBranch = branchResult.ok ? branchResult.value : null;
+  const currentBranch = branchResult.ok && branchResult.value ? branchResult.value : null;
 
   // Check if there's a remote
   const remoteResult = await executeCommand("git", ["remote"], { cwd: path });
@@ -92,14 +135,107 @@ export async function getGitStatus(
   });
   const isDirty = statusResult.ok && statusResult.value.length > 0;
 
+  // Compare with the upstream (fetched first if requested)
+  let upstreamStatus: UpstreamStatus = { upstream: null, ahead: 0, behind: 0, diverged: false };
+  if (currentBranch) {
+    const upstreamResult = await getUpstreamStatus(currentBranch, path, options);
+    if (upstreamResult.ok) upstreamStatus = upstreamResult.value;
+  }
+
   return Ok({
     isRepo: true,
     hasRemote,
     currentBranch,
     isDirty,
+    ...upstreamStatus,
   });
 }
 
+/**
+ * Compare a branch with its upstream, optionally fetching the upstream first
+ */
+export async function getUpstreamStatus(
+  branch: string,
+  path: string = Deno.cwd(),
+  options?: { fetch?: boolean },
+): Promise<Result<UpstreamStatus>> {
+  const upstreamResult = await executeCommand(
+    "git",
+    ["rev-parse", "--abbrev-ref", "--symbolic-full-name", `${branch}@{upstream}`],
+    { cwd: path },
+  );
+
+  if (!upstreamResult.ok) {
+    return Ok({ upstream: null, ahead: 0, behind: 0, diverged: false });
+  }
+  const upstream = upstreamResult.value;
+
+  if (options?.fetch) {
+    const remoteResult = await executeCommand("git", ["config", `branch.${branch}.remote`], {
+      cwd: path,
+    });
+    const remote = remoteResult.ok ? remoteResult.value : "origin";
+    const fetchResult = await executeCommand("git", ["fetch", "--quiet", remote], { cwd: path });
+
+    if (!fetchResult.ok) {
+      return Err(
+        new PublishError(`Failed to fetch ${remote}`, "GIT_FETCH_FAILED", fetchResult.error),
+      );
+    }
+  }
+
+  // "<ahead>\t<behind>" for the symmetric difference of the branch and its upstream
+  const countResult = await executeCommand(
+    "git",
+    ["rev-list", "--left-right", "--count", `${branch}...${upstream}`],
+    { cwd: path },
+  );
+
+  if (!countResult.ok) {
+    return Err(
+      new PublishError(
+        `Failed to compare ${branch} with ${upstream}`,
+        "GIT_STATUS_FAILED",
+        countResult.error,
+      ),
+    );
+  }
+
+  const [ahead, behind] = countResult.value.split(/\s+/).map(Number);
+  return Ok({ upstream, ahead, behind, diverged: ahead > 0 && behind > 0 });
+}
+
+/**
+ * Pull the upstream into the current branch, by rebase or merge
+ */
+export async function pull(
+  options: { rebase: boolean },
+  path: string = Deno.cwd(),
+  logger?: Logger,
+): Promise<Result<void>> {
+  const mode = options.rebase ? "--rebase" : "--no-rebase";
+
+  logger?.info(`Pulling with ${mode}...`);
+
+  const result = await executeCommand("git", ["pull", mode], { cwd: path });
+
+  if (!result.ok) {
+    return Err(
+      new PublishError(
+        options.rebase
+          ? "Failed to rebase onto the upstream. " +
+            "Resolve it with 'git rebase --continue' or 'git rebase --abort'."
+          : "Failed to merge the upstream. Resolve the conflicts and commit.",
+        "GIT_PULL_FAILED",
+        result.error,
+      ),
+    );
+  }
+
+  logger?.success("Branch is up to date with its upstream");
+  return Ok(undefined);
+}
+
 /**
  * Get all local branches
  */
@@ -124,6 +260,55 @@ export async function getBranches(
   return Ok(branches);
 }
 
+/**
+ * Get the branches, local or remote-tracking, that contain a commit
+ *
+ * Remote-tracking branches are named without their remote (origin/main is main).
+ */
+export async function getBranchesContaining(
+  ref: string,
+  path: string = Deno.cwd(),
+): Promise<Result<string[]>> {
+  const result = await executeCommand(
+    "git",
+    ["for-each-ref", "--contains", ref, "--format=%(refname)", "refs/heads", "refs/remotes"],
+    { cwd: path },
+  );
+
+  if (!result.ok) {
+    return Err(
+      new PublishError(
+        `Failed to get the branches containing ${ref}`,
+        "GIT_BRANCHES_FAILED",
+        result.error,
+      ),
+    );
+  }
+
+  const branches = result.value
+    .split("\n")
+    .map((name) => name.trim().replace(/^refs\/heads\//, "").replace(/^refs\/remotes\/[^/]+\//, ""))
+    .filter((name) => name.length > 0 && name !== "HEAD");
+
+  return Ok([...new Set(branches)]);
+}
+
+/**
+ * Get the Git identity of the user ("Name <email>")
+ */
+export async function getUserIdentity(path: string = Deno.cwd()): Promise<Result<string>> {
+  const result = await executeCommand("git", ["var", "GIT_COMMITTER_IDENT"], { cwd: path });
+
+  if (!result.ok) {
+    return Err(
+      new PublishError("No Git identity configured", "GIT_IDENTITY_MISSING", result.error),
+    );
+  }
+
+  // Drop the timestamp and timezone that follow the email
+  return Ok(result.value.replace(/\s+\d+\s+[+-]\d{4}$/, ""));
+}
+
 /**
  * Get all tags
  */
@@ -144,6 +329,114 @@ export async function getTags(path: string = Deno.cwd()): Promise<Result<string[
   return Ok(tags);
 }
 
+/**
+ * Get the most recent tag reachable from a ref (null if there is none)
+ */
+export async function getLatestTag(
+  ref: string = "HEAD",
+  path: string = Deno.cwd(),
+): Promise<string | null> {
+  const result = await executeCommand("git", ["describe", "--tags", "--abbrev=0", ref], {
+    cwd: path,
+  });
+  return result.ok && result.value.length > 0 ? result.value : null;
+}
+
+/**
+ * Get the top-level directory of the repository containing a path
+ */
+export async function getRepoRoot(path: string = Deno.cwd()): Promise<Result<string>> {
+  const result = await executeCommand("git", ["rev-parse", "--show-toplevel"], { cwd: path });
+
+  if (!result.ok) {
+    return Err(
+      new PublishError("Failed to find repository root", "GIT_ROOT_FAILED", result.error),
+    );
+  }
+
+  return Ok(result.value);
+}
+
+/**
+ * Check out a ref into a separate, detached worktree
+ */
+export async function addWorktree(
+  dir: string,
+  ref: string,
+  path: string = Deno.cwd(),
+): Promise<Result<void>> {
+  const result = await executeCommand("git", ["worktree", "add", "--detach", dir, ref], {
+    cwd: path,
+  });
+
+  if (!result.ok) {
+    return Err(
+      new PublishError(`Failed to check out ${ref}`, "GIT_WORKTREE_FAILED", result.error),
+    );
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Remove a worktree created with addWorktree
+ */
+export async function removeWorktree(
+  dir: string,
+  path: string = Deno.cwd(),
+): Promise<Result<void>> {
+  const result = await executeCommand("git", ["worktree", "remove", "--force", dir], {
+    cwd: path,
+  });
+
+  if (!result.ok) {
+    return Err(
+      new PublishError(`Failed to remove worktree ${dir}`, "GIT_WORKTREE_FAILED", result.error),
+    );
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Get commits in the range from..to (all commits up to `to` when from is null)
+ */
+export async function getCommits(
+  from: string | null,
+  to: string = "HEAD",
+  path: string = Deno.cwd(),
+): Promise<Result<GitCommit[]>> {
+  const range = from ? `${from}..${to}` : to;
+
+  // Fields are separated by \x1f and commits by \x1e so bodies can contain newlines
+  const result = await executeCommand(
+    "git",
+    ["log", "--format=%H%x1f%s%x1f%b%x1e", range],
+    { cwd: path },
+  );
+
+  if (!result.ok) {
+    return Err(
+      new PublishError(
+        `Failed to read commits for ${range}`,
+        "GIT_LOG_FAILED",
+        result.error,
+      ),
+    );
+  }
+
+  const commits = result.value
+    .split("\x1e")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [hash, subject, body] = entry.split("\x1f");
+      return { hash, subject, body: (body || "").trim() };
+    });
+
+  return Ok(commits);
+}
+
 /**
  * Get all remotes
  */
@@ -174,42 +467,192 @@ export async function getRemotes(
   return Ok(Array.from(remotes.values()));
 }
 
+const PUSH_FLAGS: Record<string, PushStatus> = {
+  " ": PushStatus.UPDATED,
+  "+": PushStatus.FORCED,
+  "*": PushStatus.NEW,
+  "-": PushStatus.DELETED,
+  "=": PushStatus.UP_TO_DATE,
+  "!": PushStatus.REJECTED,
+};
+
+/**
+ * Parse the ref lines of `git push --porcelain` output
+ */
+export function parsePushPorcelain(output: string): PushedRef[] {
+  const refs: PushedRef[] = [];
+
+  for (const line of output.split("\n")) {
+    const [flag, refspec, summary] = line.split("\t");
+    const status = PUSH_FLAGS[flag];
+    if (!status || refspec === undefined) continue;
+
+    refs.push({
+      ref: refspec.slice(refspec.indexOf(":") + 1),
+      status,
+      summary: (summary ?? "").trim(),
+    });
+  }
+
+  return refs;
+}
+
 /**
- * Push to a remote repository
+ * Shorten a ref for display (refs/heads/main → main)
+ */
+function shortRefName(ref: string): string {
+  return ref.replace(/^refs\/(heads|tags)\//, "");
+}
+
+/**
+ * Push refs to a remote repository
+ *
+ * With `atomic`, the remote updates either every ref or none of them. The
+ * refs the remote reported are returned (parsed from `--porcelain` output).
  */
 export async function push(
   remote: string,
-  ref: string,
-  options?: { tags?: boolean; force?: boolean },
+  refs: string | string[],
+  options?: {
+    tags?: boolean;
+    leases?: ForcePushLease[]; // Force push, only over these expected remote values
+    atomic?: boolean;
+    followTags?: boolean;
+  },
   path: string = Deno.cwd(),
   logger?: Logger,
-): Promise<Result<void>> {
-  const args = ["push", remote, ref];
+): Promise<Result<PushedRef[]>> {
+  const refList = Array.isArray(refs) ? refs : [refs];
+  const label = refList.map(shortRefName).join(" and ");
+  const args = ["push", "--porcelain"];
+
+  if (options?.atomic) {
+    args.push("--atomic");
+  }
+
+  if (options?.followTags) {
+    args.push("--follow-tags");
+  }
 
   if (options?.tags) {
     args.push("--tags");
   }
 
-  if (options?.force) {
-    args.push("--force");
-  }
+  // Never --force: each ref may only replace the value it was checked against
+  options?.leases?.forEach((lease) => {
+    args.push(`--force-with-lease=${lease.ref}:${lease.expected}`);
+  });
 
-  logger?.info(`Pushing ${ref} to ${remote}...`);
+  args.push(remote, ...refList);
+
+  logger?.info(`Pushing ${label} to ${remote}${options?.atomic ? " (atomic)" : ""}...`);
 
   const result = await executeCommand("git", args, { cwd: path });
 
   if (!result.ok) {
+    // The porcelain ref lines are on stdout, even when the push fails
+    const error = result.error;
+    const pushed = error instanceof CommandError ? parsePushPorcelain(error.stdout) : [];
+
+    pushed.filter((r) => r.status === PushStatus.REJECTED).forEach((r) => {
+      logger?.error(`  ${shortRefName(r.ref)}: ${r.summary}`);
+    });
+    if (pushed.some((r) => r.summary.includes("stale info"))) {
+      logger?.info("The remote changed since the last fetch. Run 'git fetch' and review it first.");
+    }
+    if (options?.atomic) {
+      logger?.info("No refs were updated on the remote (atomic push)");
+    }
+
     return Err(
       new PublishError(
-        `Failed to push ${ref} to ${remote}`,
+        `Failed to push ${label} to ${remote}`,
         "GIT_PUSH_FAILED",
-        result.error,
+        error,
       ),
     );
   }
 
-  logger?.success(`Successfully pushed ${ref} to ${remote}`);
-  return Ok(undefined);
+  const pushed = parsePushPorcelain(result.value);
+  pushed.forEach((r) => {
+    const detail = r.summary.replace(/^\[|\]$/g, "");
+    if (r.status === PushStatus.UP_TO_DATE) {
+      logger?.info(`${shortRefName(r.ref)} already up to date on ${remote}`);
+    } else {
+      logger?.success(`Pushed ${shortRefName(r.ref)} to ${remote} (${detail})`);
+    }
+  });
+
+  return Ok(pushed);
+}
+
+/**
+ * Resolve a ref to its commit or tag object id ("" if it doesn't exist)
+ */
+export async function resolveRef(ref: string, path: string): Promise<string> {
+  const result = await executeCommand("git", ["rev-parse", "--verify", "--quiet", ref], {
+    cwd: path,
+  });
+  return result.ok ? result.value : "";
+}
+
+/**
+ * Work out what a force push of each ref would replace on the remote
+ *
+ * Branches are leased against their remote-tracking ref (as of the last
+ * fetch), so the push fails if the remote moved since. Tags, which have no
+ * tracking ref, are leased against their current remote value.
+ */
+export async function getForcePushLeases(
+  remote: string,
+  refs: string[],
+  path: string = Deno.cwd(),
+): Promise<Result<ForcePushLease[]>> {
+  const leases: ForcePushLease[] = [];
+
+  for (const ref of refs) {
+    const local = await resolveRef(ref, path);
+    const branch = ref.match(/^refs\/heads\/(.+)$/)?.[1];
+
+    if (branch) {
+      const expected = await resolveRef(`refs/remotes/${remote}/${branch}`, path);
+      const discarded = expected ? await getCommits(ref, expected, path) : Ok([]);
+      if (!discarded.ok) return Err(discarded.error);
+
+      leases.push({ ref, expected, local, discarded: discarded.value });
+      continue;
+    }
+
+    const result = await executeCommand("git", ["ls-remote", remote, ref], { cwd: path });
+    if (!result.ok) {
+      return Err(
+        new PublishError(
+          `Failed to read ${ref} from ${remote}`,
+          "GIT_LS_REMOTE_FAILED",
+          result.error,
+        ),
+      );
+    }
+
+    const expected = result.value.split(/\s/)[0] ?? "";
+    leases.push({ ref, expected, local, discarded: [] });
+  }
+
+  return Ok(leases);
+}
+
+/**
+ * Check if a commit is an ancestor of (or the same as) another
+ */
+export async function isAncestor(
+  ancestor: string,
+  ref: string,
+  path: string = Deno.cwd(),
+): Promise<boolean> {
+  const result = await executeCommand("git", ["merge-base", "--is-ancestor", ancestor, ref], {
+    cwd: path,
+  });
+  return result.ok;
 }
 
 /**
@@ -247,6 +690,112 @@ export async function createTag(
   return Ok(undefined);
 }
 
+/**
+ * Delete a local tag
+ */
+export async function deleteTag(
+  tagName: string,
+  path: string = Deno.cwd(),
+): Promise<Result<void>> {
+  const result = await executeCommand("git", ["tag", "-d", tagName], { cwd: path });
+
+  if (!result.ok) {
+    return Err(
+      new PublishError(`Failed to delete tag ${tagName}`, "GIT_TAG_FAILED", result.error),
+    );
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Move the current branch back to a commit, undoing the commits made since
+ *
+ * Uses `reset --keep`: uncommitted changes to files those commits didn't
+ * touch are kept.
+ */
+export async function resetBranch(
+  commit: string,
+  path: string = Deno.cwd(),
+): Promise<Result<void>> {
+  const result = await executeCommand("git", ["reset", "--keep", commit], { cwd: path });
+
+  if (!result.ok) {
+    return Err(
+      new PublishError(`Failed to reset to ${commit}`, "GIT_RESET_FAILED", result.error),
+    );
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Get the files with uncommitted changes, relative to the repository root
+ */
+export async function getChangedFiles(path: string = Deno.cwd()): Promise<Result<string[]>> {
+  const files: string[] = [];
+
+  // Modified tracked files, then untracked ones
+  for (
+    const args of [
+      ["diff", "--name-only", "HEAD"],
+      ["ls-files", "--others", "--exclude-standard", "--full-name"],
+    ]
+  ) {
+    const result = await executeCommand("git", args, { cwd: path });
+
+    if (!result.ok) {
+      return Err(
+        new PublishError("Failed to get the changed files", "GIT_STATUS_FAILED", result.error),
+      );
+    }
+
+    files.push(...result.value.split("\n").filter((file) => file.trim().length > 0));
+  }
+
+  return Ok(files);
+}
+
+/**
+ * Stage the given files and commit only them
+ */
+export async function commitFiles(
+  files: string[],
+  message: string,
+  path: string = Deno.cwd(),
+  logger?: Logger,
+): Promise<Result<void>> {
+  const addResult = await executeCommand("git", ["add", "--", ...files], {
+    cwd: path,
+  });
+
+  if (!addResult.ok) {
+    return Err(
+      new PublishError("Failed to stage changes", "GIT_ADD_FAILED", addResult.error),
+    );
+  }
+
+  // --only leaves anything else the user staged out of this commit
+  const commitResult = await executeCommand(
+    "git",
+    ["commit", "--only", "-m", message, "--", ...files],
+    { cwd: path },
+  );
+
+  if (!commitResult.ok) {
+    return Err(
+      new PublishError(
+        "Failed to create commit",
+        "GIT_COMMIT_FAILED",
+        commitResult.error,
+      ),
+    );
+  }
+
+  logger?.success(`Commit created: "${message}"`);
+  return Ok(undefined);
+}
+
 /**
  * Add a remote repository
  */
@@ -278,18 +827,24 @@ export async function addRemote(
 
 /**
  * Test if we can push to a remote (dry run)
+ *
+ * Refs the remote rejects (e.g., a branch behind its upstream) still count:
+ * the remote was reached, and the upstream check reports them.
  */
 export async function canPush(
   remote: string = "origin",
   branch?: string,
   path: string = Deno.cwd(),
 ): Promise<boolean> {
-  const args = ["push", "--dry-run", remote];
+  const args = ["push", "--dry-run", "--porcelain", remote];
 
   if (branch) {
     args.push(branch);
   }
 
   const result = await executeCommand("git", args, { cwd: path });
-  return result.ok;
+  if (result.ok) return true;
+
+  const error = result.error;
+  return error instanceof CommandError && parsePushPorcelain(error.stdout).length > 0;
 }
@@ -0,0 +1,185 @@
+/**
+ * Lifecycle hooks module (commands run around the publish phases)
+ */
+
+import { resolve } from "@std/path";
+import { HookCommand, HooksConfig } from "./config.ts";
+import {
+  Err,
+  executeCommand,
+  executeShellCommand,
+  Logger,
+  Ok,
+  PublishError,
+  Result,
+} from "./utils.ts";
+
+export enum HookName {
+  PRE_PUBLISH = "prePublish",
+  POST_GIT_PUSH = "postGitPush",
+  PRE_REGISTRY = "preRegistry",
+  POST_REGISTRY = "postRegistry",
+  POST_PUBLISH = "postPublish",
+  ON_FAILURE = "onFailure",
+}
+
+/**
+ * What the workflow knows so far, passed to hooks as PUBLISHJS_* variables
+ */
+export interface HookContext {
+  ref?: string; // Branch or tag being published
+  version?: string;
+  remote?: string;
+  registries: string[]; // Ids of the selected registries
+  registry?: string; // Registry hooks only
+  packageName?: string; // Registry hooks only
+  error?: string; // onFailure only
+}
+
+export interface HookRunOptions {
+  path: string; // Project root, where hooks run
+  dryRun?: boolean; // Show the hooks instead of running them
+  logger: Logger;
+}
+
+const REGISTRY_HOOKS: string[] = [HookName.PRE_REGISTRY, HookName.POST_REGISTRY];
+
+/**
+ * Check that every configured hook name is known
+ */
+export function validateHooks(hooks: HooksConfig = {}): Result<void> {
+  const names = Object.values(HookName) as string[];
+
+  for (const key of Object.keys(hooks)) {
+    const [name, registry] = key.split(/:(.*)/);
+    const isKnown = registry !== undefined
+      ? REGISTRY_HOOKS.includes(name) && registry.length > 0
+      : names.includes(name);
+
+    if (!isKnown) {
+      return Err(
+        new PublishError(
+          `Unknown hook in publishjs.json: ${key} (expected one of ${names.join(", ")})`,
+          "CONFIG_INVALID",
+        ),
+      );
+    }
+
+    const commands = [hooks[key]].flat();
+    const isInvalid = (hook: HookCommand) =>
+      typeof hook === "string" ? !hook.trim() : !hook?.command && !hook?.module;
+    if (commands.some(isInvalid)) {
+      return Err(
+        new PublishError(
+          `Hook ${key} in publishjs.json needs a command or a module`,
+          "CONFIG_INVALID",
+        ),
+      );
+    }
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Get the commands of a hook, including `<hook>:<registry>` for registry hooks
+ */
+export function getHookCommands(
+  hooks: HooksConfig = {},
+  name: HookName,
+  registry?: string,
+): HookCommand[] {
+  const keys = registry ? [name, `${name}:${registry}`] : [name];
+  return keys.flatMap((key) => {
+    const commands = hooks[key];
+    return commands === undefined ? [] : Array.isArray(commands) ? commands : [commands];
+  });
+}
+
+/**
+ * Build the PUBLISHJS_* environment variables of a hook
+ */
+export function getHookEnv(name: string, context: HookContext): Record<string, string> {
+  const env: Record<string, string> = {
+    PUBLISHJS_HOOK: name,
+    PUBLISHJS_REF: context.ref ?? "",
+    PUBLISHJS_VERSION: context.version ?? "",
+    PUBLISHJS_REMOTE: context.remote ?? "",
+    PUBLISHJS_REGISTRIES: context.registries.join(","),
+  };
+
+  if (context.registry) env.PUBLISHJS_REGISTRY = context.registry;
+  if (context.packageName) env.PUBLISHJS_PACKAGE = context.packageName;
+  if (context.error) env.PUBLISHJS_ERROR = context.error;
+
+  return env;
+}
+
+/**
+ * Describe a hook command for logs (the shell command or module path)
+ */
+function describeHookCommand(hook: HookCommand): string {
+  if (typeof hook === "string") return hook;
+  return hook.module ? `deno run -A ${hook.module}` : hook.command ?? "";
+}
+
+/**
+ * Run one hook command, a shell command or a Deno module
+ */
+function runHookCommand(
+  hook: HookCommand,
+  env: Record<string, string>,
+  path: string,
+): Promise<Result<string>> {
+  if (typeof hook === "object" && hook.module) {
+    const args = ["run", "-A", resolve(path, hook.module)];
+    return executeCommand("deno", args, { cwd: path, env, includeStderr: true });
+  }
+
+  const command = typeof hook === "string" ? hook : hook.command ?? "";
+  return executeShellCommand(command, { cwd: path, env });
+}
+
+/**
+ * Run the commands of a hook in order
+ *
+ * The first failing command aborts with HOOK_FAILED. In a dry run the
+ * commands are only listed.
+ */
+export async function runHooks(
+  hooks: HooksConfig | undefined,
+  name: HookName,
+  context: HookContext,
+  options: HookRunOptions,
+): Promise<Result<void>> {
+  const label = context.registry ? `${name}:${context.registry}` : name;
+  const commands = getHookCommands(hooks, name, context.registry);
+  const { logger } = options;
+
+  for (const hook of commands) {
+    const description = describeHookCommand(hook);
+
+    if (options.dryRun) {
+      logger.info(`Would run ${label} hook: ${description}`);
+      continue;
+    }
+
+    logger.info(`Running ${label} hook: ${description}`);
+    const result = await runHookCommand(hook, getHookEnv(name, context), options.path);
+
+    if (!result.ok) {
+      logger.error(result.error.message);
+      return Err(
+        new PublishError(
+          `${label} hook failed: ${description}`,
+          "HOOK_FAILED",
+          result.error,
+        ),
+      );
+    }
+
+    if (result.value) logger.debug(result.value);
+  }
+
+  return Ok(undefined);
+}
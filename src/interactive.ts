@@ -2,7 +2,7 @@
  * Interactive prompts module for publishjs
  */
 
-import { Confirm, Input, Select } from "@cliffy/prompt";
+import { Checkbox, Confirm, Input, Secret, Select } from "@cliffy/prompt";
 import { Err, Logger, Ok, PublishError, Result } from "./utils.ts";
 
 /**
@@ -75,13 +75,14 @@ export async function promptSelectTag(tags: string[]): Promise<Result<string>> {
 /**
  * Prompt user to create a new tag
  */
-export async function promptCreateTag(): Promise<Result<{
+export async function promptCreateTag(suggestedName?: string): Promise<Result<{
   name: string;
   message?: string;
 }>> {
   try {
     const name = await Input.prompt({
       message: "Enter tag name (e.g., v1.0.0):",
+      default: suggestedName,
       validate: (value) => {
         if (!value || value.trim().length === 0) {
           return "Tag name cannot be empty";
@@ -177,6 +178,30 @@ export async function promptSelectRegistries(
   }
 }
 
+/**
+ * Prompt user to select workspace packages to release
+ */
+export async function promptSelectPackages(
+  available: string[],
+): Promise<Result<string[]>> {
+  if (available.length === 0) {
+    return Ok([]);
+  }
+
+  try {
+    const packages = await Checkbox.prompt({
+      message: "Select packages to release:",
+      options: available.map((name) => ({ value: name, name, checked: true })),
+    });
+
+    return Ok(packages);
+  } catch (error) {
+    return Err(
+      new PublishError("Package selection cancelled", "PROMPT_CANCELLED", error),
+    );
+  }
+}
+
 /**
  * Prompt for confirmation before proceeding with publish
  */
@@ -184,14 +209,18 @@ export async function promptConfirmPublish(
   ref: string,
   remote: string,
   registries: string[],
+  overrides: string[] = [],
 ): Promise<boolean> {
   console.log("\n📦 Ready to publish:");
   console.log(`   Git: ${ref} → ${remote}`);
 
   if (registries.length > 0) {
-    console.log(`   Registries: ${registries.join(", ")}`);
+    console.log("   Registries:");
+    registries.forEach((registry) => console.log(`     • ${registry}`));
   }
 
+  overrides.forEach((override) => console.log(`   ⚠ ${override}`));
+
   console.log();
 
   try {
@@ -206,6 +235,74 @@ export async function promptConfirmPublish(
   }
 }
 
+/**
+ * Prompt how to bring a branch that is behind its upstream up to date
+ */
+export async function promptSyncUpstream(
+  upstream: string,
+  diverged: boolean,
+): Promise<Result<"rebase" | "merge" | "cancel">> {
+  try {
+    const choice = await Select.prompt({
+      message: `Update the branch from ${upstream} before publishing?`,
+      options: [
+        { value: "rebase", name: `Rebase onto ${upstream} (git pull --rebase)` },
+        {
+          value: "merge",
+          name: diverged
+            ? `Merge ${upstream} (git pull --no-rebase)`
+            : `Fast-forward to ${upstream}`,
+        },
+        { value: "cancel", name: "Cancel publishing" },
+      ],
+    });
+
+    return Ok(choice as "rebase" | "merge" | "cancel");
+  } catch (error) {
+    return Err(
+      new PublishError("Selection cancelled", "PROMPT_CANCELLED", error),
+    );
+  }
+}
+
+/**
+ * Ask the user to type a word (e.g., a branch name) to confirm a dangerous action
+ */
+export async function promptTypeToConfirm(
+  expected: string,
+  message: string,
+): Promise<boolean> {
+  try {
+    const answer = await Input.prompt({ message });
+    return answer.trim() === expected;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Prompt for a one-time password (two-factor authentication)
+ */
+export async function promptOtp(): Promise<Result<string>> {
+  try {
+    const otp = await Secret.prompt({
+      message: "Enter one-time password:",
+      validate: (value) => {
+        if (!/^\d{6,8}$/.test(value.trim())) {
+          return "Enter the code from your authenticator app";
+        }
+        return true;
+      },
+    });
+
+    return Ok(otp.trim());
+  } catch (error) {
+    return Err(
+      new PublishError("One-time password prompt cancelled", "PROMPT_CANCELLED", error),
+    );
+  }
+}
+
 /**
  * Prompt user to input remote URL
  */
@@ -0,0 +1,344 @@
+/**
+ * JSONC parsing and format-preserving editing module (deno.jsonc, deno.json, jsr.json)
+ */
+
+interface JsoncNode {
+  type: "object" | "array" | "literal";
+  start: number;
+  end: number;
+  members: JsoncMember[]; // Object members, in source order
+  items: JsoncNode[]; // Array items
+}
+
+interface JsoncMember {
+  key: string;
+  start: number; // Start of the quoted key
+  end: number; // End of the value
+  value: JsoncNode;
+}
+
+const LITERAL_PATTERN = /true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Parse JSONC text into a tree of nodes with their source positions
+ *
+ * Accepts line and block comments and trailing commas, like Deno does.
+ */
+function parseTree(text: string): JsoncNode {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new SyntaxError(`${message} at position ${pos}`);
+  };
+
+  const skipTrivia = () => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) {
+        pos++;
+      } else if (text.startsWith("//", pos)) {
+        const newline = text.indexOf("\n", pos);
+        pos = newline === -1 ? text.length : newline;
+      } else if (text.startsWith("/*", pos)) {
+        const close = text.indexOf("*/", pos + 2);
+        if (close === -1) fail("Unterminated comment");
+        pos = close + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    if (pos >= text.length) fail("Unterminated string");
+    pos++;
+    return JSON.parse(text.slice(start, pos));
+  };
+
+  const parseValue = (): JsoncNode => {
+    skipTrivia();
+    const start = pos;
+    const node: JsoncNode = { type: "literal", start, end: start, members: [], items: [] };
+
+    if (text[pos] === "{") {
+      node.type = "object";
+      pos++;
+      skipTrivia();
+      while (text[pos] !== "}") {
+        if (text[pos] !== '"') fail("Expected property name");
+        const keyStart = pos;
+        const key = readString();
+        skipTrivia();
+        if (text[pos] !== ":") fail("Expected ':'");
+        pos++;
+        const value = parseValue();
+        node.members.push({ key, start: keyStart, end: value.end, value });
+        skipTrivia();
+        if (text[pos] === ",") {
+          pos++;
+          skipTrivia();
+        } else if (text[pos] !== "}") {
+          fail("Expected ',' or '}'");
+        }
+      }
+      pos++;
+    } else if (text[pos] === "[") {
+      node.type = "array";
+      pos++;
+      skipTrivia();
+      while (text[pos] !== "]") {
+        if (pos >= text.length) fail("Unterminated array");
+        node.items.push(parseValue());
+        skipTrivia();
+        if (text[pos] === ",") {
+          pos++;
+          skipTrivia();
+        } else if (text[pos] !== "]") {
+          fail("Expected ',' or ']'");
+        }
+      }
+      pos++;
+    } else if (text[pos] === '"') {
+      readString();
+    } else {
+      LITERAL_PATTERN.lastIndex = pos;
+      const match = LITERAL_PATTERN.exec(text);
+      if (!match) fail("Unexpected token");
+      pos += match![0].length;
+    }
+
+    node.end = pos;
+    return node;
+  };
+
+  const root = parseValue();
+  skipTrivia();
+  if (pos < text.length) fail("Unexpected content");
+
+  return root;
+}
+
+/**
+ * Convert a node to its value
+ */
+function toValue(text: string, node: JsoncNode): unknown {
+  switch (node.type) {
+    case "object":
+      return Object.fromEntries(node.members.map((m) => [m.key, toValue(text, m.value)]));
+    case "array":
+      return node.items.map((item) => toValue(text, item));
+    default:
+      return JSON.parse(text.slice(node.start, node.end));
+  }
+}
+
+/**
+ * Parse JSONC text (JSON with comments and trailing commas)
+ */
+export function parseJsonc(text: string): unknown {
+  return toValue(text, parseTree(text));
+}
+
+/**
+ * Detect the indentation unit of a document (defaults to two spaces)
+ */
+function detectIndent(text: string): string {
+  return text.match(/^[ \t]+(?=["\]}])/m)?.[0] ?? "  ";
+}
+
+/**
+ * Get the leading whitespace of the line containing a position
+ */
+function lineIndent(text: string, pos: number): string {
+  const lineStart = text.lastIndexOf("\n", pos - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+/**
+ * Serialize a value for insertion at the given indentation
+ */
+function formatValue(value: unknown, indent: string, unit: string): string {
+  return JSON.stringify(value, null, unit).replaceAll("\n", `\n${indent}`);
+}
+
+/**
+ * Find the position after the next comma, if only whitespace and comments come before it
+ */
+function findComma(text: string, pos: number): number | null {
+  const match = text.slice(pos).match(/^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*,/);
+  return match ? pos + match[0].length : null;
+}
+
+/**
+ * Find the end of the line at a position, unless code follows on the same line
+ */
+function lineEnd(text: string, pos: number): number {
+  const match = text.slice(pos).match(/^[ \t]*(?:\/\/[^\n]*)?(?=\r?\n)/);
+  return match ? pos + match[0].length : pos;
+}
+
+/**
+ * Replace a range of the text
+ */
+function splice(text: string, start: number, end: number, insert: string): string {
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+/**
+ * Find the last member with a key (the one JSON.parse keeps)
+ */
+function findMember(node: JsoncNode, key: string): JsoncMember | undefined {
+  return node.members.findLast((m) => m.key === key);
+}
+
+/**
+ * Add a member at the end of an object, following its layout and trailing comma style
+ */
+function insertMember(text: string, node: JsoncNode, key: string, value: unknown): string {
+  const unit = detectIndent(text);
+  const multiline = text.slice(node.start, node.end).includes("\n");
+
+  const last = node.members.at(-1);
+  if (!last) {
+    const inner = text.slice(node.start + 1, node.end - 1);
+    const parentIndent = lineIndent(text, node.start);
+    const indent = parentIndent + unit;
+    const member = `"${key}": ${formatValue(value, indent, unit)}`;
+
+    // Keep comments in an otherwise empty object
+    return inner.trim()
+      ? splice(text, node.start + 1, node.start + 1, `\n${indent}${member}`)
+      : splice(text, node.start, node.end, `{\n${indent}${member}\n${parentIndent}}`);
+  }
+
+  const indent = multiline ? lineIndent(text, last.start) : "";
+  const member = `"${key}": ${formatValue(value, indent, unit)}`;
+
+  if (!multiline) {
+    return splice(text, last.end, last.end, `, ${member}`);
+  }
+
+  const comma = findComma(text, last.end);
+  if (comma !== null) {
+    const pos = lineEnd(text, comma);
+    return splice(text, pos, pos, `\n${indent}${member},`);
+  }
+
+  const pos = lineEnd(text, last.end);
+  return splice(text, last.end, pos, `,${text.slice(last.end, pos)}\n${indent}${member}`);
+}
+
+/**
+ * Set the value at a key path, changing nothing else in the text
+ *
+ * Missing keys are added at the end of their object.
+ */
+export function setJsoncValue(text: string, path: string[], value: unknown): string {
+  let node = parseTree(text);
+
+  for (let i = 0; i < path.length; i++) {
+    if (node.type !== "object") {
+      throw new TypeError(`Cannot set ${path.join(".")}: ${path[i - 1]} is not an object`);
+    }
+
+    const member = findMember(node, path[i]);
+    if (!member) {
+      const nested = path.slice(i + 1).reduceRight<unknown>((acc, key) => ({ [key]: acc }), value);
+      return insertMember(text, node, path[i], nested);
+    }
+    node = member.value;
+  }
+
+  const formatted = formatValue(value, lineIndent(text, node.start), detectIndent(text));
+  return splice(text, node.start, node.end, formatted);
+}
+
+/**
+ * Remove the member at a key path, changing nothing else in the text
+ */
+export function removeJsoncValue(text: string, path: string[]): string {
+  let parent = parseTree(text);
+
+  for (const key of path.slice(0, -1)) {
+    const member = parent.type === "object" ? findMember(parent, key) : undefined;
+    if (!member) return text;
+    parent = member.value;
+  }
+
+  const member = parent.type === "object" ? findMember(parent, path.at(-1)!) : undefined;
+  if (!member) return text;
+
+  const index = parent.members.indexOf(member);
+  const previous = parent.members[index - 1];
+  const next = parent.members[index + 1];
+
+  // The member, its own comma and a comment on the rest of its line
+  let start = member.start;
+  const comma = findComma(text, member.end);
+  let end = lineEnd(text, comma ?? member.end);
+
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const newline = text.slice(end).match(/^\r?\n/)?.[0];
+  if (newline && !text.slice(lineStart, start).trim()) {
+    // Alone on its line: remove the whole line
+    start = lineStart;
+    end += newline.length;
+  } else {
+    end += text.slice(end).match(/^[ \t]*/)![0].length;
+  }
+
+  let removed = splice(text, start, end, "");
+
+  // Without a comma of its own, the last member leaves the previous one's comma trailing
+  const previousComma = !comma && previous ? findComma(removed, previous.end) : null;
+  if (previousComma !== null) {
+    removed = splice(removed, previousComma - 1, previousComma, "");
+  }
+
+  if (previous || next) return removed;
+
+  // Last member: leave an empty object behind, unless comments remain
+  const inner = removed.slice(parent.start + 1, parent.end - 1 - (end - start));
+  return inner.trim() ? removed : splice(removed, parent.start, parent.end - (end - start), "{}");
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply the differences between two versions of a document's value to its text
+ *
+ * Only changed keys are rewritten, so comments, key order, indentation and
+ * trailing commas elsewhere are kept.
+ */
+export function applyJsoncChanges(
+  text: string,
+  before: unknown,
+  after: unknown,
+  path: string[] = [],
+): string {
+  if (isObject(before) && isObject(after)) {
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        text = removeJsoncValue(text, [...path, key]);
+      }
+    }
+
+    for (const [key, value] of Object.entries(after)) {
+      text = key in before
+        ? applyJsoncChanges(text, before[key], value, [...path, key])
+        : setJsoncValue(text, [...path, key], value);
+    }
+
+    return text;
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? text : setJsoncValue(text, path, after);
+}
@@ -0,0 +1,176 @@
+/**
+ * JSR publish pre-flight module (`deno publish --dry-run` diagnostics)
+ */
+
+import { stripAnsiCode } from "@std/fmt/colors";
+import { fromFileUrl, isAbsolute, relative } from "@std/path";
+import { CommandError, Err, executeCommand, Logger, Ok, PublishError, Result } from "./utils.ts";
+
+export enum DiagnosticSeverity {
+  ERROR = "error",
+  WARNING = "warning",
+}
+
+export interface PublishDiagnostic {
+  severity: DiagnosticSeverity;
+  rule?: string; // e.g., missing-explicit-return-type (unset for general errors)
+  message: string;
+  file?: string; // Relative to the package directory
+  line?: number;
+  column?: number;
+  hint?: string;
+  docs?: string; // Link to the rule's documentation
+}
+
+const HEADER_PATTERN = /^(error|warning)\[([^\]]+)\]: (.*)$/;
+const LOCATION_PATTERN = /^\s*--> (.+?)(?::(\d+):(\d+))?$/;
+
+/**
+ * Parse the diagnostics of `deno publish` output
+ */
+export function parsePublishDiagnostics(
+  output: string,
+  path?: string,
+): PublishDiagnostic[] {
+  // deno only colors output on a terminal, but strip escape codes to be safe
+  const lines = stripAnsiCode(output).split(/\r?\n/);
+  const diagnostics: PublishDiagnostic[] = [];
+  let current: PublishDiagnostic | undefined;
+
+  for (const line of lines) {
+    const header = line.match(HEADER_PATTERN);
+    if (header) {
+      current = {
+        severity: header[1] as DiagnosticSeverity,
+        rule: header[2],
+        message: header[3],
+      };
+      diagnostics.push(current);
+      continue;
+    }
+
+    // General errors such as uncommitted changes (the problem count is a summary)
+    const general = line.match(/^error: (.*)$/);
+    if (general) {
+      current = undefined;
+      if (!/^Found \d+ problems?/.test(general[1])) {
+        diagnostics.push({ severity: DiagnosticSeverity.ERROR, message: general[1] });
+      }
+      continue;
+    }
+
+    if (!current) continue;
+
+    const location = line.match(LOCATION_PATTERN);
+    if (location && current.file === undefined) {
+      const file = location[1].startsWith("file://") ? fromFileUrl(location[1]) : location[1];
+      current.file = path && isAbsolute(file) ? relative(path, file) : file;
+      if (location[2]) {
+        current.line = Number(location[2]);
+        current.column = Number(location[3]);
+      }
+      continue;
+    }
+
+    const hint = line.match(/^\s*= hint: (.*)$/);
+    if (hint) {
+      current.hint = hint[1];
+      continue;
+    }
+
+    const docs = line.match(/^\s*docs: (\S+)$/);
+    if (docs) {
+      current.docs = docs[1];
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Run `deno publish --dry-run` and collect its diagnostics
+ *
+ * Fails with JSR_DRY_RUN_FAILED (diagnostics in the details) if deno reports errors.
+ */
+export async function runPublishDryRun(
+  path: string = Deno.cwd(),
+  allowDirty = false,
+): Promise<Result<PublishDiagnostic[]>> {
+  const args = ["publish", "--dry-run"];
+  if (allowDirty) {
+    args.push("--allow-dirty");
+  }
+
+  const result = await executeCommand("deno", args, { cwd: path, includeStderr: true });
+
+  if (result.ok) {
+    return Ok(parsePublishDiagnostics(result.value, path));
+  }
+
+  // deno reports on both streams, the error message only has one of them
+  const output = result.error instanceof CommandError
+    ? `${result.error.stdout}\n${result.error.stderr}`
+    : result.error.message;
+  const diagnostics = parsePublishDiagnostics(output, path);
+  const errors = diagnostics.filter((d) => d.severity === DiagnosticSeverity.ERROR);
+
+  return Err(
+    new PublishError(
+      errors.length > 0
+        ? `deno publish --dry-run found ${errors.length} error${errors.length === 1 ? "" : "s"}`
+        : `deno publish --dry-run failed: ${result.error.message}`,
+      "JSR_DRY_RUN_FAILED",
+      diagnostics,
+    ),
+  );
+}
+
+/**
+ * Format the location of a diagnostic (file:line:column)
+ */
+function formatLocation(diagnostic: PublishDiagnostic): string {
+  if (!diagnostic.file) return "";
+  return diagnostic.line === undefined
+    ? diagnostic.file
+    : `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+}
+
+/**
+ * Show diagnostics grouped by rule, errors first
+ */
+export function displayPublishDiagnostics(
+  diagnostics: PublishDiagnostic[],
+  logger: Logger,
+): void {
+  const groups = new Map<string, PublishDiagnostic[]>();
+  const sorted = [...diagnostics].sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === DiagnosticSeverity.ERROR ? -1 : 1
+  );
+
+  for (const diagnostic of sorted) {
+    const key = `${diagnostic.severity}:${diagnostic.rule ?? ""}`;
+    groups.set(key, [...groups.get(key) ?? [], diagnostic]);
+  }
+
+  for (const group of groups.values()) {
+    const [first] = group;
+    const title = first.rule ? `${first.rule}: ${first.message}` : first.message;
+    const heading = `${title}${group.length > 1 ? ` (${group.length})` : ""}`;
+
+    if (first.severity === DiagnosticSeverity.ERROR) {
+      logger.error(heading);
+    } else {
+      logger.warn(heading);
+    }
+
+    // General errors carry their own message, rules repeat it per location
+    group.forEach((diagnostic) => {
+      const location = formatLocation(diagnostic);
+      if (location) logger.info(`  ${location}`);
+      if (!first.rule && diagnostic !== first) logger.info(`  ${diagnostic.message}`);
+    });
+
+    if (first.hint) logger.info(`  Hint: ${first.hint}`);
+    if (first.docs) logger.debug(`  Docs: ${first.docs}`);
+  }
+}
@@ -2,10 +2,11 @@
  * JSR configuration validator and helper module
  */
 
-import { exists } from "@std/fs";
-import { join } from "@std/path";
+import { exists, walk } from "@std/fs";
+import { basename, dirname, extname, globToRegExp, join, relative, resolve } from "@std/path";
 import { Confirm, Input } from "@cliffy/prompt";
-import { Err, Logger, Ok, PublishError, Result } from "./utils.ts";
+import { applyJsoncChanges, parseJsonc } from "./jsonc.ts";
+import { Err, executeCommand, Logger, Ok, PublishError, Result } from "./utils.ts";
 
 export interface JsrValidation {
   isValid: boolean;
@@ -16,15 +17,38 @@ export interface JsrValidation {
   hasValidVersion: boolean; // semver format
   hasExports: boolean;
   hasLicense: boolean;
+  missingExports: JsrExport[]; // Export paths that don't exist
+  undocumentedModules: string[]; // Entry modules without a module doc comment
+  unversionedImports: JsrExport[]; // Import map entries without a version (key → specifier)
+  importIssues: JsrImportIssue[]; // Imports of published modules that JSR rejects
+  publishFiles: string[]; // Relative to the package directory
+  excludedFiles: string[]; // Left out by publish.include/exclude or exclude
+  configPath?: string; // Manifest the package is published from (jsr.json or deno.json)
+  importMapPath?: string; // deno.json(c) next to a jsr.json manifest, holding the imports map
   currentConfig?: DenoConfig;
   issues: string[];
   suggestions: string[];
 }
 
+export interface JsrExport {
+  key: string;
+  path: string;
+}
+
+export interface JsrImportIssue {
+  file: string; // Importing module, relative to the package directory
+  specifier: string;
+  reason: "unversioned" | "remote" | "unpublished";
+  target?: string; // Unpublished file, relative to the package directory
+}
+
 export interface DenoConfig {
   name?: string;
   version?: string;
   exports?: string | Record<string, string>;
+  imports?: Record<string, string>;
+  publish?: { include?: string[]; exclude?: string[] };
+  exclude?: string[];
   license?: string;
   description?: string;
   repository?: string | Record<string, string>;
@@ -32,25 +56,55 @@ export interface DenoConfig {
 }
 
 /**
- * Read deno.json configuration
+ * Module extensions whose imports are checked
+ */
+const MODULE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+
+/**
+ * Import and export specifiers (static, side-effect and dynamic imports)
+ */
+const IMPORT_PATTERN =
+  /(?:^|[\s;])(?:import|export)\s[^'"`;]*?from\s*["']([^"']+)["']|(?:^|[\s;])import\s*\(?\s*["']([^"']+)["']/gm;
+
+/**
+ * JSR manifests in order of precedence (jsr.json holds the publishing metadata if both exist)
+ */
+export const JSR_CONFIG_FILES = ["jsr.json", "deno.json", "deno.jsonc"];
+
+/**
+ * Find the manifest a JSR package is published from
+ */
+export async function findJsrConfigFile(path: string): Promise<string | null> {
+  for (const file of JSR_CONFIG_FILES) {
+    const configPath = join(path, file);
+    if (await exists(configPath)) {
+      return configPath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a JSR manifest (jsr.json, deno.json or deno.jsonc)
  */
-async function readDenoConfig(path: string): Promise<Result<DenoConfig>> {
-  const denoJsonPath = join(path, "deno.json");
+async function readDenoConfig(configPath: string): Promise<Result<DenoConfig>> {
+  const file = basename(configPath);
 
-  if (!await exists(denoJsonPath)) {
+  if (!await exists(configPath)) {
     return Err(
-      new PublishError("deno.json not found", "DENO_JSON_NOT_FOUND"),
+      new PublishError(`${file} not found`, "DENO_JSON_NOT_FOUND"),
     );
   }
 
   try {
-    const content = await Deno.readTextFile(denoJsonPath);
-    const config = JSON.parse(content);
+    const content = await Deno.readTextFile(configPath);
+    const config = parseJsonc(content);
     return Ok(config as DenoConfig);
   } catch (error) {
     return Err(
       new PublishError(
-        "Failed to parse deno.json",
+        `Failed to parse ${file}`,
         "DENO_JSON_PARSE_ERROR",
         error,
       ),
@@ -59,22 +113,55 @@ async function readDenoConfig(path: string): Promise<Result<DenoConfig>> {
 }
 
 /**
- * Write deno.json configuration
+ * Find the deno.json or deno.jsonc whose imports map applies next to a jsr.json manifest
+ */
+async function findImportMapFile(manifestPath: string): Promise<string | null> {
+  if (basename(manifestPath) !== "jsr.json") return null;
+
+  for (const file of JSR_CONFIG_FILES.slice(1)) {
+    const configPath = join(dirname(manifestPath), file);
+    if (await exists(configPath)) {
+      return configPath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a bare specifier through an imports map (exact or "prefix/" entries)
+ */
+function resolveImportMap(
+  specifier: string,
+  imports: Record<string, string>,
+): string | undefined {
+  if (specifier in imports) return imports[specifier];
+
+  const prefix = Object.keys(imports)
+    .filter((key) => key.endsWith("/") && specifier.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : imports[prefix] + specifier.slice(prefix.length);
+}
+
+/**
+ * Write a JSR manifest, changing only the edited keys of an existing one
  */
 async function writeDenoConfig(
-  path: string,
+  configPath: string,
   config: DenoConfig,
 ): Promise<Result<void>> {
-  const denoJsonPath = join(path, "deno.json");
-
   try {
-    const content = JSON.stringify(config, null, 2) + "\n";
-    await Deno.writeTextFile(denoJsonPath, content);
+    let content = JSON.stringify(config, null, 2) + "\n";
+    if (await exists(configPath)) {
+      const original = await Deno.readTextFile(configPath);
+      content = applyJsoncChanges(original, parseJsonc(original), config);
+    }
+    await Deno.writeTextFile(configPath, content);
     return Ok(undefined);
   } catch (error) {
     return Err(
       new PublishError(
-        "Failed to write deno.json",
+        `Failed to write ${basename(configPath)}`,
         "DENO_JSON_WRITE_ERROR",
         error,
       ),
@@ -82,6 +169,187 @@ async function writeDenoConfig(
   }
 }
 
+/**
+ * List the exports of a config as key/path pairs ("." for a string export)
+ */
+export function getExportPaths(exports: DenoConfig["exports"]): JsrExport[] {
+  if (typeof exports === "string") return [{ key: ".", path: exports }];
+  return Object.entries(exports ?? {}).map(([key, path]) => ({ key, path }));
+}
+
+/**
+ * Check if a module starts with a module doc comment
+ *
+ * Like `deno doc`, the first JSDoc block counts if it has a `@module` tag or
+ * isn't attached to a declaration.
+ */
+export function hasModuleDoc(content: string): boolean {
+  const match = content.match(/^(?:#![^\n]*\n)?(?:\s|\/\/[^\n]*)*\/\*\*([\s\S]*?)\*\/\s*(\S*)/);
+  if (!match) return false;
+
+  const [, body, next] = match;
+  return body.includes("@module") || next === "" || /^(?:import|\/\/|\/\*)/.test(next);
+}
+
+/**
+ * Check if an npm: or jsr: specifier has no version (e.g., npm:chalk or jsr:@std/path/join)
+ */
+export function isUnversionedSpecifier(specifier: string): boolean {
+  const match = specifier.match(/^(?:npm|jsr):\/?(@[^/@]+\/[^/@]+|[^/@]+)(@[^/]+)?/);
+  return match !== null && !match[2];
+}
+
+/**
+ * Find the import and export specifiers of a module
+ */
+export function findImports(content: string): string[] {
+  return [...content.matchAll(IMPORT_PATTERN)].map((m) => m[1] ?? m[2]);
+}
+
+/**
+ * Check if a file matches an include/exclude entry (a path, a directory or a glob)
+ */
+function matchesPattern(file: string, pattern: string): boolean {
+  const normalized = pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+  return file === normalized || file.startsWith(`${normalized}/`) ||
+    globToRegExp(normalized, { extended: true, globstar: true }).test(file);
+}
+
+/**
+ * Split files into the ones `deno publish` uploads and the ones the config excludes
+ */
+export function evaluatePublishFiles(
+  files: string[],
+  config: DenoConfig,
+): { published: string[]; excluded: string[] } {
+  const include = config.publish?.include;
+  // "!" entries only re-include gitignored files, which aren't listed here
+  const exclude = [...config.exclude ?? [], ...config.publish?.exclude ?? []]
+    .filter((pattern) => !pattern.startsWith("!"));
+
+  const published: string[] = [];
+  const excluded: string[] = [];
+
+  for (const file of files) {
+    const included = !include || include.some((pattern) => matchesPattern(file, pattern));
+    if (included && !exclude.some((pattern) => matchesPattern(file, pattern))) {
+      published.push(file);
+    } else {
+      excluded.push(file);
+    }
+  }
+
+  return { published, excluded };
+}
+
+/**
+ * List the files of a package that aren't gitignored
+ */
+async function listPackageFiles(path: string): Promise<string[]> {
+  const result = await executeCommand(
+    "git",
+    ["ls-files", "--cached", "--others", "--exclude-standard"],
+    { cwd: path },
+  );
+
+  if (result.ok) {
+    // Tracked files may have been deleted from the working tree
+    const files: string[] = [];
+    for (const file of new Set(result.value.split("\n").filter(Boolean))) {
+      if (await exists(join(path, file))) files.push(file);
+    }
+    return files.sort();
+  }
+
+  // Not a Git repository: everything but VCS and dependency directories
+  const files: string[] = [];
+  for await (const entry of walk(path, { includeDirs: false, skip: [/\.git$/, /node_modules$/] })) {
+    files.push(relative(path, entry.path));
+  }
+  return files.sort();
+}
+
+/**
+ * Check the imports of the modules reachable from the exports
+ */
+async function checkModuleGraph(
+  path: string,
+  entries: string[],
+  published: Set<string>,
+  imports: Record<string, string>,
+): Promise<JsrImportIssue[]> {
+  const issues: JsrImportIssue[] = [];
+  const visited = new Set<string>();
+  const queue = [...entries];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    if (visited.has(file) || !MODULE_EXTENSIONS.includes(extname(file))) continue;
+    visited.add(file);
+
+    let content: string;
+    try {
+      content = await Deno.readTextFile(join(path, file));
+    } catch {
+      continue;
+    }
+
+    for (const specifier of findImports(content)) {
+      const mapped = resolveImportMap(specifier, imports);
+
+      if (mapped !== undefined) {
+        // The imports map entries themselves are validated separately
+        if (!mapped.startsWith("./") && !mapped.startsWith("../")) continue;
+
+        const target = relative(path, resolve(path, mapped));
+        if (!published.has(target)) {
+          issues.push({ file, specifier, reason: "unpublished", target });
+        } else {
+          queue.push(target);
+        }
+      } else if (/^https?:/.test(specifier)) {
+        issues.push({ file, specifier, reason: "remote" });
+      } else if (isUnversionedSpecifier(specifier)) {
+        issues.push({ file, specifier, reason: "unversioned" });
+      } else if (specifier.startsWith("./") || specifier.startsWith("../")) {
+        const target = relative(path, resolve(path, dirname(file), specifier));
+        if (!published.has(target)) {
+          issues.push({ file, specifier, reason: "unpublished", target });
+        } else {
+          queue.push(target);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Describe an import JSR rejects, with what to do about it
+ */
+function describeImportIssue(issue: JsrImportIssue): { issue: string; suggestion: string } {
+  const location = `${issue.file} imports ${issue.specifier}`;
+
+  switch (issue.reason) {
+    case "remote":
+      return {
+        issue: `${location}: JSR doesn't allow http(s) imports`,
+        suggestion: `Replace ${issue.specifier} with a jsr: or npm: specifier`,
+      };
+    case "unversioned":
+      return {
+        issue: `${location}: npm: and jsr: imports need a version`,
+        suggestion: `Add a version to ${issue.specifier} (e.g., through the imports map)`,
+      };
+    default:
+      return {
+        issue: `${location}: the file is not published`,
+        suggestion: `Add ${issue.specifier} to publish.include or remove it from exclude`,
+      };
+  }
+}
+
 /**
  * Validate JSR package name format (@scope/package)
  */
@@ -98,9 +366,12 @@ function validateSemver(version: string): boolean {
 
 /**
  * Validate JSR configuration
+ *
+ * Validates the given manifest, or the one found in `path` (jsr.json first).
  */
 export async function validateJsrConfig(
   path: string = Deno.cwd(),
+  configPath?: string,
 ): Promise<Result<JsrValidation>> {
   const validation: JsrValidation = {
     isValid: false,
@@ -111,20 +382,30 @@ export async function validateJsrConfig(
     hasValidVersion: false,
     hasExports: false,
     hasLicense: false,
+    missingExports: [],
+    undocumentedModules: [],
+    unversionedImports: [],
+    importIssues: [],
+    publishFiles: [],
+    excludedFiles: [],
     issues: [],
     suggestions: [],
   };
 
-  // Check if deno.json exists
-  const configResult = await readDenoConfig(path);
+  // Check if a JSR manifest exists
+  const manifestPath = configPath ?? await findJsrConfigFile(path);
 
-  if (!configResult.ok) {
-    validation.issues.push("deno.json file not found");
+  if (!manifestPath) {
+    validation.issues.push("deno.json, deno.jsonc or jsr.json file not found");
     validation.suggestions.push("Create a deno.json file for JSR publishing");
     return Ok(validation);
   }
 
+  const configResult = await readDenoConfig(manifestPath);
+  if (!configResult.ok) return Err(configResult.error);
+
   validation.hasConfig = true;
+  validation.configPath = manifestPath;
   validation.currentConfig = configResult.value;
   const config = configResult.value;
 
@@ -174,6 +455,81 @@ export async function validateJsrConfig(
     validation.hasExports = true;
   }
 
+  // Work out which files deno publish uploads
+  const { published, excluded } = evaluatePublishFiles(await listPackageFiles(path), config);
+  validation.publishFiles = published;
+  validation.excludedFiles = excluded;
+  const publishSet = new Set(published);
+
+  // Validate export paths and their module docs
+  const entries: string[] = [];
+  for (const entry of getExportPaths(config.exports)) {
+    const file = relative(path, resolve(path, entry.path));
+
+    if (!await exists(join(path, file), { isFile: true })) {
+      validation.missingExports.push(entry);
+      validation.issues.push(`Export '${entry.key}' points to a missing file: ${entry.path}`);
+      validation.suggestions.push(`Point export '${entry.key}' to an existing module`);
+      continue;
+    }
+
+    if (!publishSet.has(file)) {
+      validation.importIssues.push({
+        file: basename(manifestPath),
+        specifier: entry.path,
+        reason: "unpublished",
+        target: file,
+      });
+      validation.issues.push(`Export '${entry.key}' (${entry.path}) is excluded from publishing`);
+      validation.suggestions.push(`Add ${entry.path} to publish.include or remove it from exclude`);
+      continue;
+    }
+
+    entries.push(file);
+    if (MODULE_EXTENSIONS.includes(extname(file))) {
+      const content = await Deno.readTextFile(join(path, file));
+      if (!hasModuleDoc(content)) {
+        validation.undocumentedModules.push(file);
+        validation.suggestions.push(`Add a module doc comment (/** ... @module */) to ${file}`);
+      }
+    }
+  }
+
+  // A jsr.json manifest publishes with the imports map of the deno.json next to it
+  let imports = config.imports ?? {};
+  const importMapPath = await findImportMapFile(manifestPath);
+  if (importMapPath) {
+    const importMapResult = await readDenoConfig(importMapPath);
+    if (!importMapResult.ok) return Err(importMapResult.error);
+
+    validation.importMapPath = importMapPath;
+    imports = { ...importMapResult.value.imports, ...imports };
+  }
+
+  // Validate the imports map and the imports of the published modules
+  for (const [key, specifier] of Object.entries(imports)) {
+    const mapFile = basename(
+      importMapPath && !(key in (config.imports ?? {})) ? importMapPath : manifestPath,
+    );
+
+    if (isUnversionedSpecifier(specifier)) {
+      validation.unversionedImports.push({ key, path: specifier });
+      validation.issues.push(`Import '${key}' has no version: ${specifier}`);
+      validation.suggestions.push(`Pin '${key}' to a version range (e.g., ${specifier}@^1.0.0)`);
+    } else if (/^https?:/.test(specifier)) {
+      validation.importIssues.push({ file: mapFile, specifier, reason: "remote" });
+      validation.issues.push(`Import '${key}' is an http(s) URL: ${specifier}`);
+      validation.suggestions.push(`Replace '${key}' with a jsr: or npm: specifier`);
+    }
+  }
+
+  for (const importIssue of await checkModuleGraph(path, entries, publishSet, imports)) {
+    const { issue, suggestion } = describeImportIssue(importIssue);
+    validation.importIssues.push(importIssue);
+    validation.issues.push(issue);
+    validation.suggestions.push(suggestion);
+  }
+
   // Check license (recommended but not required)
   if (!config.license) {
     validation.suggestions.push(
@@ -186,7 +542,10 @@ export async function validateJsrConfig(
   // Determine if valid overall
   validation.isValid = validation.hasValidName &&
     validation.hasValidVersion &&
-    validation.hasExports;
+    validation.hasExports &&
+    validation.missingExports.length === 0 &&
+    validation.unversionedImports.length === 0 &&
+    validation.importIssues.length === 0;
 
   return Ok(validation);
 }
@@ -249,6 +608,59 @@ async function promptPackageName(suggestedName: string): Promise<Result<string>>
   }
 }
 
+/**
+ * Prompt user for the module of an export
+ */
+async function promptExportPath(entry: JsrExport, path: string): Promise<Result<string>> {
+  try {
+    const value = await Input.prompt({
+      message: `Module for export '${entry.key}' (${entry.path} not found):`,
+      validate: async (value) =>
+        await exists(resolve(path, value.trim()), { isFile: true }) || "File not found",
+    });
+
+    const trimmed = value.trim();
+    return Ok(trimmed.startsWith(".") ? trimmed : `./${trimmed}`);
+  } catch (error) {
+    return Err(
+      new PublishError("Export path prompt cancelled", "PATH_PROMPT_CANCELLED", error),
+    );
+  }
+}
+
+/**
+ * Pin an npm: or jsr: specifier to the caret range of its latest version
+ */
+async function pinSpecifier(specifier: string): Promise<Result<string>> {
+  const match = specifier.match(/^(npm|jsr):\/?(@[^/@]+\/[^/@]+|[^/@]+)(.*)$/);
+  if (!match) {
+    return Err(
+      new PublishError(`Not an npm: or jsr: specifier: ${specifier}`, "INVALID_SPECIFIER"),
+    );
+  }
+
+  const [, protocol, name, rest] = match;
+  const url = protocol === "npm"
+    ? `https://registry.npmjs.org/${name.replace("/", "%2f")}/latest`
+    : `https://jsr.io/${name}/meta.json`;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      await response.body?.cancel();
+      return Err(
+        new PublishError(`Could not look up ${name} (${response.status})`, "VERSION_LOOKUP_FAILED"),
+      );
+    }
+
+    const data = await response.json();
+    const version = protocol === "npm" ? data.version : data.latest;
+    return Ok(`${protocol}:${name}@^${version}${rest}`);
+  } catch (error) {
+    return Err(new PublishError(`Could not look up ${name}`, "VERSION_LOOKUP_FAILED", error));
+  }
+}
+
 /**
  * Auto-fix JSR configuration issues
  */
@@ -257,15 +669,21 @@ export async function autoFixJsrConfig(
   path: string = Deno.cwd(),
   logger: Logger,
 ): Promise<Result<void>> {
-  if (validation.isValid) {
+  if (validation.isValid && validation.undocumentedModules.length === 0) {
     logger.success("JSR configuration is already valid");
     return Ok(undefined);
   }
 
   logger.section("JSR Configuration Auto-Fix");
 
-  logger.warn("The following issues were found:");
-  validation.issues.forEach((issue) => logger.error(`  • ${issue}`));
+  if (validation.issues.length > 0) {
+    logger.warn("The following issues were found:");
+    validation.issues.forEach((issue) => logger.error(`  • ${issue}`));
+  }
+  if (validation.undocumentedModules.length > 0) {
+    logger.info("Entry modules without a module doc comment:");
+    validation.undocumentedModules.forEach((file) => logger.info(`  • ${file}`));
+  }
 
   const shouldFix = await Confirm.prompt({
     message: "Would you like to fix these issues automatically?",
@@ -278,8 +696,10 @@ export async function autoFixJsrConfig(
     );
   }
 
-  // Get current config or create new one
-  let config: DenoConfig = validation.currentConfig || {};
+  // Get current config or create a new deno.json
+  const config: DenoConfig = structuredClone(validation.currentConfig) || {};
+  const configPath = validation.configPath ?? join(path, "deno.json");
+  const configFile = basename(configPath);
 
   // Fix name if needed
   if (!validation.hasValidName) {
@@ -290,7 +710,7 @@ export async function autoFixJsrConfig(
 
     const scope = scopeResult.value;
     const suggestedPkgName = config.name?.split("/")[1] ||
-      basename(path).toLowerCase().replace(/[^a-z0-9-]/g, "-");
+      (basename(resolve(path)) || "package").toLowerCase().replace(/[^a-z0-9-]/g, "-");
 
     const pkgNameResult = await promptPackageName(suggestedPkgName);
     if (!pkgNameResult.ok) return Err(pkgNameResult.error);
@@ -324,16 +744,123 @@ export async function autoFixJsrConfig(
       logger.success(`Exports set to: ${config.exports}`);
     } else {
       logger.warn(
-        "No main file detected. Please set 'exports' manually in deno.json",
+        `No main file detected. Please set 'exports' manually in ${configFile}`,
       );
       config.exports = "./mod.ts";
     }
   }
 
+  // Point missing exports at existing modules
+  for (const entry of validation.missingExports) {
+    const pathResult = await promptExportPath(entry, path);
+    if (!pathResult.ok) return Err(pathResult.error);
+
+    config.exports = typeof config.exports === "string"
+      ? pathResult.value
+      : { ...config.exports, [entry.key]: pathResult.value };
+    logger.success(`Export '${entry.key}' set to: ${pathResult.value}`);
+  }
+
+  // Pin unversioned imports to their latest version
+  if (validation.unversionedImports.length > 0) {
+    const pin = await Confirm.prompt({
+      message: `Pin ${
+        validation.unversionedImports.map((i) => i.key).join(", ")
+      } to their latest versions?`,
+      default: true,
+    });
+
+    const pinnedInImportMap: Record<string, string> = {};
+    for (const entry of pin ? validation.unversionedImports : []) {
+      const pinnedResult = await pinSpecifier(entry.path);
+      if (!pinnedResult.ok) {
+        logger.warn(`${pinnedResult.error.message}, please add a version to '${entry.key}'`);
+        continue;
+      }
+
+      if (validation.importMapPath && !(entry.key in (config.imports ?? {}))) {
+        pinnedInImportMap[entry.key] = pinnedResult.value;
+      } else {
+        config.imports = { ...config.imports, [entry.key]: pinnedResult.value };
+      }
+      logger.success(`Import '${entry.key}' set to: ${pinnedResult.value}`);
+    }
+
+    // Entries of the deno.json imports map stay there
+    if (Object.keys(pinnedInImportMap).length > 0) {
+      const importMapResult = await readDenoConfig(validation.importMapPath!);
+      if (!importMapResult.ok) return Err(importMapResult.error);
+
+      const importMap = importMapResult.value;
+      importMap.imports = { ...importMap.imports, ...pinnedInImportMap };
+      const writeResult = await writeDenoConfig(validation.importMapPath!, importMap);
+      if (!writeResult.ok) return Err(writeResult.error);
+    }
+  }
+
+  // Publish the files that published modules import
+  const unpublished = [
+    ...new Set(
+      validation.importIssues.filter((i) => i.reason === "unpublished").map((i) => i.target!),
+    ),
+  ];
+  const include = config.publish?.include;
+  const includable = include
+    ? unpublished.filter((file) =>
+      !file.startsWith("..") &&
+      evaluatePublishFiles([file], { ...config, publish: { ...config.publish, include: [file] } })
+          .published.length > 0
+    )
+    : [];
+
+  if (includable.length > 0) {
+    const addInclude = await Confirm.prompt({
+      message: `Add ${includable.join(", ")} to publish.include?`,
+      default: true,
+    });
+
+    if (addInclude) {
+      config.publish = { ...config.publish, include: [...include!, ...includable] };
+      logger.success(`Added to publish.include: ${includable.join(", ")}`);
+    }
+  }
+
+  // The remaining import issues need changes to the code or the exclude lists
+  const manual = validation.importIssues.filter((i) =>
+    i.reason !== "unpublished" || !includable.includes(i.target!)
+  );
+  if (manual.length > 0) {
+    logger.warn("These imports need to be fixed manually:");
+    manual.forEach((i) => logger.info(`  • ${describeImportIssue(i).suggestion} (${i.file})`));
+  }
+
+  // Add module docs to the entry modules (recommended)
+  if (validation.undocumentedModules.length > 0) {
+    const addDocs = await Confirm.prompt({
+      message: `Add module doc comments to ${validation.undocumentedModules.join(", ")}?`,
+      default: true,
+    });
+
+    for (const file of addDocs ? validation.undocumentedModules : []) {
+      const description = await Input.prompt({
+        message: `Describe ${file}:`,
+        default: config.description ?? config.name ?? basename(file),
+      });
+
+      const filePath = join(path, file);
+      const content = await Deno.readTextFile(filePath);
+      await Deno.writeTextFile(
+        filePath,
+        `/**\n * ${description.trim()}\n *\n * @module\n */\n\n${content}`,
+      );
+      logger.success(`Module doc added to: ${file}`);
+    }
+  }
+
   // Add license if missing (recommended)
   if (!validation.hasLicense) {
     const addLicense = await Confirm.prompt({
-      message: "Add MIT license to deno.json?",
+      message: `Add MIT license to ${configFile}?`,
       default: true,
     });
 
@@ -344,16 +871,9 @@ export async function autoFixJsrConfig(
   }
 
   // Write updated config
-  const writeResult = await writeDenoConfig(path, config);
+  const writeResult = await writeDenoConfig(configPath, config);
   if (!writeResult.ok) return Err(writeResult.error);
 
-  logger.success("deno.json updated successfully!");
+  logger.success(`${configFile} ${validation.configPath ? "updated" : "created"} successfully!`);
   return Ok(undefined);
 }
-
-/**
- * Get current directory basename (for suggestions)
- */
-function basename(path: string): string {
-  return path.split("/").filter(Boolean).pop() || "package";
-}
@@ -0,0 +1,211 @@
+/**
+ * npm build module for Deno projects (transpiles deno.json exports with dnt)
+ */
+
+import { emptyDir, exists } from "@std/fs";
+import { basename, join, resolve } from "@std/path";
+import { NpmBuildConfig } from "./config.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { getRepositoryField, PackageJson, validateNpmName } from "./npm_validator.ts";
+import { PackageInfo } from "./registry.ts";
+import { getPrimaryRemote } from "./remote.ts";
+import { Err, Logger, Ok, PublishError, Result } from "./utils.ts";
+
+export interface DenoPackageConfig {
+  name?: string;
+  version?: string;
+  description?: string;
+  license?: string;
+  exports?: string | Record<string, string>;
+}
+
+export interface NpmEntryPoint {
+  name: string; // Export key, e.g. "." or "./utils"
+  path: string; // Absolute path of the Deno module
+}
+
+// Copied next to the generated package.json when present
+const EXTRA_FILES = ["README.md", "LICENSE", "LICENSE.md"];
+
+// Builds of the current run, shared by the pack preview and every npm target
+const builds = new Map<string, Promise<Result<string>>>();
+
+// Output directories created for builds without an outDir
+const tempDirs = new Set<string>();
+
+/**
+ * Map deno.json exports to npm entry points
+ */
+export function getEntryPoints(
+  exports: DenoPackageConfig["exports"],
+  path: string,
+): NpmEntryPoint[] {
+  if (!exports) return [];
+
+  const entries = typeof exports === "string" ? { ".": exports } : exports;
+  return Object.entries(entries).map(([name, file]) => ({ name, path: resolve(path, file) }));
+}
+
+/**
+ * Read the Deno config a package is built from
+ */
+async function readDenoPackageConfig(manifestPath: string): Promise<Result<DenoPackageConfig>> {
+  try {
+    return Ok(parseJsonc(await Deno.readTextFile(manifestPath)) as DenoPackageConfig);
+  } catch (error) {
+    return Err(
+      new PublishError(`Failed to parse ${manifestPath}`, "NPM_PARSE_ERROR", error),
+    );
+  }
+}
+
+/**
+ * Check that a Deno project can be built into an npm package
+ *
+ * Returns the issues: an invalid npm name or exports that are missing.
+ */
+export async function validateNpmBuild(pkg: PackageInfo): Promise<Result<string[]>> {
+  const configResult = await readDenoPackageConfig(pkg.manifestPath);
+  if (!configResult.ok) return Err(configResult.error);
+
+  const issues: string[] = [];
+  if (!validateNpmName(pkg.name)) {
+    issues.push(`Invalid npm package name: ${pkg.name} (set npm.build.name in publishjs.json)`);
+  }
+
+  const entryPoints = getEntryPoints(configResult.value.exports, pkg.path);
+  if (entryPoints.length === 0) {
+    issues.push(`${basename(pkg.manifestPath)} has no 'exports' to build the npm package from`);
+  }
+  for (const entry of entryPoints) {
+    if (!await exists(entry.path, { isFile: true })) {
+      issues.push(`Export '${entry.name}' points to a missing file: ${entry.path}`);
+    }
+  }
+
+  return Ok(issues);
+}
+
+/**
+ * Remove the temporary output directories of this run's builds
+ */
+export async function cleanupNpmBuilds(): Promise<void> {
+  for (const dir of tempDirs) {
+    await Deno.remove(dir, { recursive: true }).catch(() => {});
+  }
+  tempDirs.clear();
+  builds.clear();
+}
+
+/**
+ * Generate the npm package.json fields from the Deno config
+ *
+ * dnt adds the entry points and the dependencies found in `npm:` specifiers.
+ */
+export function createNpmPackageJson(
+  config: DenoPackageConfig,
+  build: NpmBuildConfig = {},
+  repository?: PackageJson["repository"],
+): PackageJson & { name: string; version: string } {
+  const packageJson: PackageJson & { name: string; version: string } = {
+    name: build.name ?? config.name ?? "",
+    version: config.version ?? "",
+  };
+
+  if (config.description) packageJson.description = config.description;
+  if (config.license) packageJson.license = config.license;
+  if (repository) packageJson.repository = repository;
+
+  return { ...packageJson, ...build.package };
+}
+
+/**
+ * Build the npm package of a Deno project and return its directory
+ *
+ * Modules are transpiled to ESM with separate `.d.ts` files. `jsr:` imports
+ * are bundled into the output and `npm:` imports become package.json
+ * dependencies. Builds are reused for the rest of the run.
+ */
+export function buildNpmPackage(
+  pkg: PackageInfo,
+  build: NpmBuildConfig = {},
+  logger?: Logger,
+): Promise<Result<string>> {
+  const key = `${resolve(pkg.path)}@${pkg.version}`;
+  if (!builds.has(key)) {
+    builds.set(key, runBuild(pkg, build, logger));
+  }
+  return builds.get(key)!;
+}
+
+/**
+ * Run dnt for a package
+ */
+async function runBuild(
+  pkg: PackageInfo,
+  build: NpmBuildConfig,
+  logger?: Logger,
+): Promise<Result<string>> {
+  const configResult = await readDenoPackageConfig(pkg.manifestPath);
+  if (!configResult.ok) return Err(configResult.error);
+  const config = configResult.value;
+
+  const entryPoints = getEntryPoints(config.exports, pkg.path);
+  if (entryPoints.length === 0) {
+    return Err(
+      new PublishError(
+        `${pkg.manifestPath} has no 'exports' to build the npm package from`,
+        "NPM_BUILD_FAILED",
+      ),
+    );
+  }
+
+  const remoteResult = await getPrimaryRemote(pkg.path);
+  const repository = remoteResult.ok
+    ? await getRepositoryField(remoteResult.value.url, pkg.path)
+    : null;
+
+  let outDir: string;
+  if (build.outDir) {
+    outDir = resolve(pkg.path, build.outDir);
+  } else {
+    outDir = await Deno.makeTempDir({ prefix: "publishjs-npm-" });
+    tempDirs.add(outDir);
+  }
+
+  logger?.info(`Building npm package of ${pkg.name}...`);
+  logger?.debug(`npm build output: ${outDir}`);
+
+  try {
+    await emptyDir(outDir);
+
+    // Loaded on demand, dnt is only needed by projects that build for npm
+    const dnt = await import("@deno/dnt");
+    await dnt.build({
+      entryPoints,
+      outDir,
+      importMap: pkg.manifestPath,
+      shims: { deno: build.shims?.deno ?? false },
+      package: createNpmPackageJson(config, build, repository ?? undefined),
+      declaration: "separate",
+      scriptModule: false,
+      typeCheck: false, // Left to deno check, the sources are the same
+      test: false,
+      skipNpmInstall: true,
+      postBuild: async () => {
+        for (const file of EXTRA_FILES) {
+          if (await exists(join(pkg.path, file))) {
+            await Deno.copyFile(join(pkg.path, file), join(outDir, file));
+          }
+        }
+      },
+    });
+  } catch (error) {
+    return Err(
+      new PublishError(`Failed to build the npm package of ${pkg.name}`, "NPM_BUILD_FAILED", error),
+    );
+  }
+
+  logger?.success(`Built npm package of ${pkg.name}`);
+  return Ok(outDir);
+}
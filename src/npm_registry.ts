@@ -0,0 +1,222 @@
+/**
+ * npm registry resolution module (publishConfig, .npmrc and publishjs.json targets)
+ */
+
+import { exists } from "@std/fs";
+import { join } from "@std/path";
+import { NpmBuildConfig, NpmConfig } from "./config.ts";
+import { DEFAULT_NPM_REGISTRY_URL, PackageInfo } from "./registry.ts";
+import { Err, Ok, PublishError, Result } from "./utils.ts";
+
+export interface NpmTarget {
+  name: string; // Display name, also used in the adapter id (npm:<name>)
+  registryUrl?: string; // Unset means "resolve like npm would"
+  tokenEnv?: string; // Environment variable holding the auth token
+}
+
+/**
+ * Parse .npmrc content into key/value pairs, expanding ${ENV} references
+ */
+export function parseNpmrc(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) continue;
+
+    const separator = line.indexOf("=");
+    if (separator === -1) continue;
+
+    const key = line.substring(0, separator).trim();
+    const value = line.substring(separator + 1).trim()
+      .replace(/^(["'])(.*)\1$/, "$2")
+      .replace(/\$\{([^}]+)\}/g, (_, name) => Deno.env.get(name) ?? "");
+
+    values[key] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Read the project and user .npmrc files (project settings take precedence)
+ */
+export async function readNpmrc(path: string): Promise<Record<string, string>> {
+  const files = [join(path, ".npmrc")];
+
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE");
+  if (home) {
+    files.push(join(home, ".npmrc"));
+  }
+
+  let values: Record<string, string> = {};
+  for (const file of files.reverse()) {
+    try {
+      if (await exists(file)) {
+        values = { ...values, ...parseNpmrc(await Deno.readTextFile(file)) };
+      }
+    } catch {
+      // Unreadable .npmrc files are ignored, like npm does
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Get the scope of a package name (@scope/name → @scope)
+ */
+function getScope(name: string): string | undefined {
+  return name.match(/^(@[^/]+)\//)?.[1];
+}
+
+/**
+ * Read publishConfig.registry from a package's manifest
+ *
+ * Built packages take it from the package.json fields of the build config.
+ */
+async function readPublishConfigRegistry(
+  pkg: PackageInfo,
+  build?: NpmBuildConfig,
+): Promise<string | undefined> {
+  if (build) {
+    const publishConfig = build.package?.publishConfig as { registry?: unknown } | undefined;
+    return typeof publishConfig?.registry === "string" ? publishConfig.registry : undefined;
+  }
+
+  try {
+    const manifest = JSON.parse(await Deno.readTextFile(pkg.manifestPath));
+    const registry = manifest.publishConfig?.registry;
+    return typeof registry === "string" ? registry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalize a registry URL so that equal registries compare equal
+ */
+export function normalizeRegistryUrl(url: string): string {
+  return url.replace(/\/+$/, "") + "/";
+}
+
+/**
+ * Resolve the registry a package is published to
+ *
+ * Order: publishConfig.registry, the target's URL, scope mapping from
+ * publishjs.json, `@scope:registry` in .npmrc, npm.registryUrl from
+ * publishjs.json, `registry` in .npmrc, then the public npm registry.
+ */
+export async function resolveNpmRegistry(
+  pkg: PackageInfo,
+  config: NpmConfig = {},
+  target?: NpmTarget,
+): Promise<string> {
+  const publishConfigRegistry = await readPublishConfigRegistry(pkg, config.build);
+  if (publishConfigRegistry) return normalizeRegistryUrl(publishConfigRegistry);
+
+  if (target?.registryUrl) return normalizeRegistryUrl(target.registryUrl);
+
+  const npmrc = await readNpmrc(pkg.path);
+  const scope = getScope(pkg.name);
+
+  const registry = (scope && config.scopes?.[scope]) ||
+    (scope && npmrc[`${scope}:registry`]) ||
+    config.registryUrl ||
+    npmrc.registry ||
+    DEFAULT_NPM_REGISTRY_URL;
+
+  return normalizeRegistryUrl(registry);
+}
+
+/**
+ * Check if publishConfig.registry pins the package to another registry than the target's
+ */
+export async function getPublishConfigConflict(
+  pkg: PackageInfo,
+  target: NpmTarget,
+  build?: NpmBuildConfig,
+): Promise<string | undefined> {
+  const publishConfigRegistry = await readPublishConfigRegistry(pkg, build);
+  if (!publishConfigRegistry || !target.registryUrl) return undefined;
+
+  return normalizeRegistryUrl(publishConfigRegistry) !== normalizeRegistryUrl(target.registryUrl)
+    ? publishConfigRegistry
+    : undefined;
+}
+
+/**
+ * Get the npm config key for a registry's auth token (//host/path/:_authToken)
+ */
+export function getAuthTokenKey(registryUrl: string): string {
+  const url = new URL(normalizeRegistryUrl(registryUrl));
+  return `//${url.host}${url.pathname}:_authToken`;
+}
+
+/**
+ * Build the environment that passes a registry token to npm without a .npmrc entry
+ */
+export function getNpmAuthEnv(
+  registryUrl: string,
+  token?: string,
+): Record<string, string> {
+  if (!token) return {};
+
+  return { [`npm_config_${getAuthTokenKey(registryUrl)}`]: token };
+}
+
+/**
+ * Check if a registry URL is an absolute http(s) URL
+ */
+function isRegistryUrl(url: unknown): boolean {
+  if (typeof url !== "string") return false;
+
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the registry URLs of the npm config (targets, scopes and the default)
+ */
+export function validateNpmConfigUrls(config: NpmConfig = {}): Result<void> {
+  const invalid = (setting: string, url: unknown) =>
+    Err(
+      new PublishError(
+        `Invalid ${setting} in publishjs.json: ${JSON.stringify(url)} (needs an http(s) URL)`,
+        "CONFIG_INVALID",
+      ),
+    );
+
+  for (const target of config.targets ?? []) {
+    if (!isRegistryUrl(target?.registryUrl)) {
+      return invalid("npm.targets registryUrl", target?.registryUrl);
+    }
+  }
+  for (const [scope, url] of Object.entries(config.scopes ?? {})) {
+    if (!isRegistryUrl(url)) return invalid(`npm.scopes registry of ${scope}`, url);
+  }
+  if (config.registryUrl !== undefined && !isRegistryUrl(config.registryUrl)) {
+    return invalid("npm.registryUrl", config.registryUrl);
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Get the configured npm targets, or the implicit default target
+ */
+export function getNpmTargets(config: NpmConfig = {}): NpmTarget[] {
+  if (!config.targets || config.targets.length === 0) {
+    return [{ name: "npm" }];
+  }
+
+  return config.targets.map((target) => ({
+    name: target.name ??
+      (isRegistryUrl(target.registryUrl) ? new URL(target.registryUrl).host : target.registryUrl),
+    registryUrl: target.registryUrl,
+    tokenEnv: target.tokenEnv,
+  }));
+}
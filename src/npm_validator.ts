@@ -0,0 +1,544 @@
+/**
+ * npm package.json validator and helper module
+ */
+
+import { exists } from "@std/fs";
+import { join, relative, resolve } from "@std/path";
+import { Confirm, Input } from "@cliffy/prompt";
+import { getRepoRoot } from "./git.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { getPrimaryRemote } from "./remote.ts";
+import { Err, Logger, Ok, PublishError, Result, updateJsonFile } from "./utils.ts";
+
+export interface NpmValidation {
+  isValid: boolean;
+  hasConfig: boolean;
+  hasValidName: boolean;
+  missingPaths: ManifestPath[]; // Entry points that don't exist
+  hasFileList: boolean; // `files` field or .npmignore
+  hasLicense: boolean;
+  hasRepository: boolean;
+  repositoryMatches: boolean; // Points at the Git remote (true if there is no remote)
+  hasEngines: boolean;
+  hasValidType: boolean; // "module" or "commonjs"
+  remoteUrl?: string;
+  currentConfig?: PackageJson;
+  issues: string[];
+  suggestions: string[];
+}
+
+export interface ManifestPath {
+  field: string[]; // Key path in package.json, e.g. ["exports", ".", "import"]
+  path: string;
+}
+
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  exports?: unknown;
+  bin?: string | Record<string, string>;
+  files?: string[];
+  license?: string;
+  repository?: string | { type?: string; url?: string; directory?: string };
+  engines?: Record<string, string>;
+  type?: string;
+  scripts?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Lifecycle scripts that run before packing (they may build the entry points)
+ */
+const BUILD_SCRIPTS = ["prepare", "prepack", "prepublishOnly"];
+
+/**
+ * Hosts of the npm repository shorthands (github:owner/repo, gitlab:owner/repo, ...)
+ */
+const REPOSITORY_HOSTS: Record<string, string> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+  bitbucket: "bitbucket.org",
+};
+
+/**
+ * Read package.json
+ */
+async function readPackageJson(path: string): Promise<Result<PackageJson>> {
+  const packageJsonPath = join(path, "package.json");
+
+  if (!await exists(packageJsonPath)) {
+    return Err(
+      new PublishError("package.json not found", "NPM_NOT_FOUND"),
+    );
+  }
+
+  try {
+    const content = await Deno.readTextFile(packageJsonPath);
+    return Ok(parseJsonc(content) as PackageJson);
+  } catch (error) {
+    return Err(
+      new PublishError(
+        "Failed to parse package.json",
+        "NPM_PARSE_ERROR",
+        error,
+      ),
+    );
+  }
+}
+
+/**
+ * Validate npm package name format (lowercase, URL-safe, optionally scoped)
+ */
+export function validateNpmName(name: string): boolean {
+  return name.length <= 214 &&
+    /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/.test(name);
+}
+
+/**
+ * Collect the entry point paths of a package.json (main, module, types, bin, exports)
+ *
+ * Export patterns with `*` are skipped.
+ */
+export function getManifestPaths(config: PackageJson): ManifestPath[] {
+  const paths: ManifestPath[] = [];
+
+  for (const field of ["main", "module", "types", "typings"]) {
+    const value = config[field];
+    if (typeof value === "string") {
+      paths.push({ field: [field], path: value });
+    }
+  }
+
+  if (typeof config.bin === "string") {
+    paths.push({ field: ["bin"], path: config.bin });
+  } else if (config.bin && typeof config.bin === "object") {
+    for (const [name, value] of Object.entries(config.bin)) {
+      if (typeof value === "string") paths.push({ field: ["bin", name], path: value });
+    }
+  }
+
+  const collectExports = (value: unknown, field: string[]) => {
+    if (typeof value === "string") {
+      if (!value.includes("*")) paths.push({ field, path: value });
+    } else if (value && typeof value === "object") {
+      for (const [key, nested] of Object.entries(value)) {
+        if (!key.includes("*")) collectExports(nested, [...field, key]);
+      }
+    }
+  };
+  collectExports(config.exports, ["exports"]);
+
+  return paths;
+}
+
+/**
+ * Check if an entry point exists (main also resolves like require does)
+ */
+async function entryPointExists(path: string, entry: ManifestPath): Promise<boolean> {
+  const file = resolve(path, entry.path);
+  const candidates = entry.field[0] === "main"
+    ? [file, `${file}.js`, join(file, "index.js")]
+    : [file];
+
+  for (const candidate of candidates) {
+    if (await exists(candidate, { isFile: true })) return true;
+  }
+  return false;
+}
+
+/**
+ * Normalize a repository URL or shorthand to host/owner/repo for comparison
+ */
+export function normalizeRepositoryUrl(url: string): string | null {
+  const shorthand = url.match(/^(?:(github|gitlab|bitbucket):)?([\w.-]+)\/([\w.-]+)$/);
+  if (shorthand) {
+    const host = REPOSITORY_HOSTS[shorthand[1] ?? "github"];
+    return `${host}/${shorthand[2]}/${shorthand[3].replace(/\.git$/, "")}`;
+  }
+
+  const cleaned = url.replace(/^git\+/, "").replace(/\/+$/, "").replace(/\.git$/, "");
+
+  // SSH form: git@github.com:owner/repo
+  const ssh = cleaned.match(/^[\w.-]+@([^:/]+):(.+)$/);
+  if (ssh) return `${ssh[1]}/${ssh[2]}`;
+
+  try {
+    const parsed = new URL(cleaned);
+    return `${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the repository URL of a package.json
+ */
+function getRepositoryUrl(config: PackageJson): string | undefined {
+  return typeof config.repository === "string" ? config.repository : config.repository?.url;
+}
+
+/**
+ * Validate npm configuration
+ */
+export async function validateNpmConfig(
+  path: string = Deno.cwd(),
+): Promise<Result<NpmValidation>> {
+  const validation: NpmValidation = {
+    isValid: false,
+    hasConfig: false,
+    hasValidName: false,
+    missingPaths: [],
+    hasFileList: false,
+    hasLicense: false,
+    hasRepository: false,
+    repositoryMatches: true,
+    hasEngines: false,
+    hasValidType: false,
+    issues: [],
+    suggestions: [],
+  };
+
+  const configResult = await readPackageJson(path);
+
+  if (!configResult.ok) {
+    validation.issues.push("package.json file not found");
+    validation.suggestions.push("Create a package.json file for npm publishing");
+    return Ok(validation);
+  }
+
+  validation.hasConfig = true;
+  validation.currentConfig = configResult.value;
+  const config = configResult.value;
+
+  // Validate name
+  if (!config.name || !validateNpmName(config.name)) {
+    validation.issues.push(`Invalid package name: ${config.name ?? "(missing)"}`);
+    validation.suggestions.push(
+      "Use a lowercase, URL-safe name (e.g., 'my-package' or '@scope/my-package')",
+    );
+  } else {
+    validation.hasValidName = true;
+  }
+
+  // Validate entry points (a build script may still create them)
+  const hasBuildScript = BUILD_SCRIPTS.some((script) => config.scripts?.[script]);
+  for (const entry of getManifestPaths(config)) {
+    if (await entryPointExists(path, entry)) continue;
+
+    const label = `'${entry.field.join(".")}' points to a missing file: ${entry.path}`;
+    if (hasBuildScript) {
+      validation.suggestions.push(`${label} (make sure the build creates it)`);
+    } else {
+      validation.missingPaths.push(entry);
+      validation.issues.push(label);
+    }
+  }
+
+  // Check which files are published
+  validation.hasFileList = Array.isArray(config.files) || await exists(join(path, ".npmignore"));
+  if (!validation.hasFileList) {
+    validation.suggestions.push(
+      "Add a 'files' field or .npmignore to control what gets published",
+    );
+  }
+
+  // Check license
+  if (!config.license) {
+    validation.suggestions.push("Consider adding 'license' field (e.g., 'MIT')");
+  } else {
+    validation.hasLicense = true;
+  }
+
+  // Check the repository against the Git remote
+  const remoteResult = await getPrimaryRemote(path);
+  if (remoteResult.ok) {
+    validation.remoteUrl = remoteResult.value.url;
+  }
+
+  const repositoryUrl = getRepositoryUrl(config);
+  if (!repositoryUrl) {
+    validation.suggestions.push("Add 'repository' field so npm links to the source");
+  } else {
+    validation.hasRepository = true;
+
+    const remote = validation.remoteUrl ? normalizeRepositoryUrl(validation.remoteUrl) : null;
+    const repository = normalizeRepositoryUrl(repositoryUrl);
+    if (remote && repository?.toLowerCase() !== remote.toLowerCase()) {
+      validation.repositoryMatches = false;
+      validation.issues.push(
+        `'repository' (${repositoryUrl}) doesn't match the Git remote (${validation.remoteUrl})`,
+      );
+    }
+  }
+
+  // Check engines
+  if (!config.engines?.node) {
+    validation.suggestions.push("Add 'engines.node' with the supported Node.js versions");
+  } else {
+    validation.hasEngines = true;
+  }
+
+  // Check module type
+  if (config.type === undefined) {
+    validation.suggestions.push("Set 'type' to 'module' or 'commonjs'");
+  } else if (config.type !== "module" && config.type !== "commonjs") {
+    validation.issues.push(`Invalid type: ${config.type}. Must be 'module' or 'commonjs'`);
+  } else {
+    validation.hasValidType = true;
+  }
+
+  validation.isValid = validation.issues.length === 0;
+
+  return Ok(validation);
+}
+
+/**
+ * Prompt user for a valid package name
+ */
+async function promptNpmName(suggestedName: string): Promise<Result<string>> {
+  try {
+    const name = await Input.prompt({
+      message: "Enter package name:",
+      default: suggestedName,
+      validate: (value) =>
+        validateNpmName(value.trim()) ||
+        "Package name must be lowercase and URL-safe (e.g., my-package or @scope/my-package)",
+    });
+
+    return Ok(name.trim());
+  } catch (error) {
+    return Err(
+      new PublishError(
+        "Package name prompt cancelled",
+        "NAME_PROMPT_CANCELLED",
+        error,
+      ),
+    );
+  }
+}
+
+/**
+ * Prompt user for the path of a missing entry point
+ */
+async function promptEntryPoint(
+  entry: ManifestPath,
+  path: string,
+): Promise<Result<string>> {
+  try {
+    const value = await Input.prompt({
+      message: `Path for '${entry.field.join(".")}' (${entry.path} not found):`,
+      validate: async (value) =>
+        await exists(resolve(path, value.trim()), { isFile: true }) || "File not found",
+    });
+
+    const trimmed = value.trim();
+    return Ok(trimmed.startsWith(".") ? trimmed : `./${trimmed}`);
+  } catch (error) {
+    return Err(
+      new PublishError("Entry point prompt cancelled", "PATH_PROMPT_CANCELLED", error),
+    );
+  }
+}
+
+/**
+ * Build the npm repository field for the Git remote
+ */
+export async function getRepositoryField(
+  remoteUrl: string,
+  path: string,
+): Promise<PackageJson["repository"] | null> {
+  const normalized = normalizeRepositoryUrl(remoteUrl);
+  if (!normalized) return null;
+
+  const repository = { type: "git", url: `git+https://${normalized}.git` };
+
+  // Workspace members point at their directory in the repository
+  const rootResult = await getRepoRoot(path);
+  const directory = rootResult.ok ? relative(rootResult.value, resolve(path)) : "";
+  return directory ? { ...repository, directory } : repository;
+}
+
+/**
+ * Guess the module type from the entry points
+ */
+function inferModuleType(config: PackageJson): "module" | "commonjs" {
+  const main = config.main ?? "";
+  if (main.endsWith(".cjs") || (main && !config.module && !config.exports)) {
+    return "commonjs";
+  }
+  return "module";
+}
+
+/**
+ * Set a value at a key path of a manifest
+ */
+function setField(data: Record<string, unknown>, field: string[], value: unknown): void {
+  let target = data;
+  for (const key of field.slice(0, -1)) {
+    if (typeof target[key] !== "object" || target[key] === null) {
+      target[key] = {};
+    }
+    target = target[key] as Record<string, unknown>;
+  }
+  target[field.at(-1)!] = value;
+}
+
+/**
+ * Auto-fix npm configuration issues
+ *
+ * Recommendations (files, license, engines, ...) are offered along with the
+ * issues, so `publishjs init` can apply them too.
+ */
+export async function autoFixNpmConfig(
+  validation: NpmValidation,
+  path: string = Deno.cwd(),
+  logger: Logger,
+): Promise<Result<void>> {
+  if (validation.isValid && validation.suggestions.length === 0) {
+    logger.success("npm configuration is already valid");
+    return Ok(undefined);
+  }
+
+  if (!validation.hasConfig) {
+    logger.warn("Run 'npm init' to create a package.json");
+    return Err(new PublishError("package.json not found", "NPM_NOT_FOUND"));
+  }
+
+  logger.section("npm Configuration Auto-Fix");
+
+  if (validation.issues.length > 0) {
+    logger.warn("The following issues were found:");
+    validation.issues.forEach((issue) => logger.error(`  • ${issue}`));
+  }
+  if (validation.suggestions.length > 0) {
+    logger.info("Recommendations:");
+    validation.suggestions.forEach((suggestion) => logger.info(`  • ${suggestion}`));
+  }
+
+  const shouldFix = await Confirm.prompt({
+    message: "Would you like to fix these issues automatically?",
+    default: true,
+  });
+
+  if (!shouldFix) {
+    return Err(
+      new PublishError("User declined auto-fix", "AUTO_FIX_DECLINED"),
+    );
+  }
+
+  const config = validation.currentConfig!;
+  const changes: { field: string[]; value: unknown }[] = [];
+
+  // Fix name if needed
+  if (!validation.hasValidName) {
+    const suggestedName = (config.name ?? "").toLowerCase().replace(/[^a-z0-9-._~@/]/g, "-");
+    const nameResult = await promptNpmName(suggestedName);
+    if (!nameResult.ok) return Err(nameResult.error);
+
+    changes.push({ field: ["name"], value: nameResult.value });
+    logger.success(`Package name set to: ${nameResult.value}`);
+  }
+
+  // Fix missing entry points
+  for (const entry of validation.missingPaths) {
+    const pathResult = await promptEntryPoint(entry, path);
+    if (!pathResult.ok) return Err(pathResult.error);
+
+    changes.push({ field: entry.field, value: pathResult.value });
+    logger.success(`${entry.field.join(".")} set to: ${pathResult.value}`);
+  }
+
+  // Point the repository at the Git remote
+  if ((!validation.hasRepository || !validation.repositoryMatches) && validation.remoteUrl) {
+    const repository = await getRepositoryField(validation.remoteUrl, path);
+    const apply = repository && await Confirm.prompt({
+      message: `Set repository to ${validation.remoteUrl}?`,
+      default: true,
+    });
+
+    if (apply) {
+      changes.push({ field: ["repository"], value: repository });
+      logger.success(`Repository set to: ${validation.remoteUrl}`);
+    }
+  }
+
+  // Publish only the entry point directories
+  if (!validation.hasFileList) {
+    const files = [
+      ...new Set(
+        getManifestPaths(config).map((entry) => entry.path.replace(/^\.\//, "").split("/")[0]),
+      ),
+    ];
+
+    if (files.length > 0) {
+      const addFiles = await Confirm.prompt({
+        message: `Add 'files' field with ${files.join(", ")}?`,
+        default: true,
+      });
+
+      if (addFiles) {
+        changes.push({ field: ["files"], value: files });
+        logger.success(`Files set to: ${files.join(", ")}`);
+      }
+    } else {
+      logger.warn("No entry points found. Please set 'files' manually in package.json");
+    }
+  }
+
+  // Add license if missing (recommended)
+  if (!validation.hasLicense) {
+    const addLicense = await Confirm.prompt({
+      message: "Add MIT license to package.json?",
+      default: true,
+    });
+
+    if (addLicense) {
+      changes.push({ field: ["license"], value: "MIT" });
+      logger.success("License set to: MIT");
+    }
+  }
+
+  // Add supported Node.js versions
+  if (!validation.hasEngines) {
+    const addEngines = await Confirm.prompt({
+      message: "Add engines.node >=18 to package.json?",
+      default: true,
+    });
+
+    if (addEngines) {
+      changes.push({ field: ["engines", "node"], value: ">=18" });
+      logger.success("Engines set to: node >=18");
+    }
+  }
+
+  // Set the module type
+  if (!validation.hasValidType) {
+    const type = inferModuleType(config);
+    const setType = await Confirm.prompt({
+      message: `Set type to '${type}'?`,
+      default: true,
+    });
+
+    if (setType) {
+      changes.push({ field: ["type"], value: type });
+      logger.success(`Type set to: ${type}`);
+    }
+  }
+
+  if (changes.length === 0) {
+    logger.info("No changes made to package.json");
+    return Ok(undefined);
+  }
+
+  const writeResult = await updateJsonFile(join(path, "package.json"), (data) => {
+    changes.forEach((change) => setField(data, change.field, change.value));
+  });
+  if (!writeResult.ok) return Err(writeResult.error);
+
+  logger.success("package.json updated successfully!");
+  return Ok(undefined);
+}
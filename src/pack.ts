@@ -0,0 +1,272 @@
+/**
+ * Package contents preview module (npm tarball and JSR upload)
+ */
+
+import { basename, fromFileUrl, join, relative } from "@std/path";
+import { findPreviousTag } from "./changelog.ts";
+import { addWorktree, getRepoRoot, getTags, removeWorktree } from "./git.ts";
+import { PackageInfo, RegistryAdapter } from "./registry.ts";
+import { Err, executeCommand, formatBytes, Logger, Ok, PublishError, Result } from "./utils.ts";
+
+export interface PackFile {
+  path: string; // Relative to the package directory
+  size: number;
+}
+
+export interface PackContents {
+  files: PackFile[];
+  totalSize: number; // Unpacked size of all files
+  packedSize?: number; // Size of the compressed upload, if known
+}
+
+export interface PackDiff {
+  baseline: string; // Tag the contents were compared against
+  added: PackFile[];
+  removed: PackFile[];
+  changed: { path: string; size: number; previousSize: number }[];
+  sizeDelta: number;
+}
+
+export interface PackPreview {
+  pkg: PackageInfo;
+  registryName: string;
+  contents: PackContents;
+  diff?: PackDiff;
+}
+
+/**
+ * Build pack contents from a file list, sorted by path
+ */
+function toPackContents(files: PackFile[]): PackContents {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  return { files: sorted, totalSize: sorted.reduce((sum, f) => sum + f.size, 0) };
+}
+
+/**
+ * List the files `npm pack` would put in the tarball
+ */
+export async function getNpmPackContents(
+  path: string = Deno.cwd(),
+): Promise<Result<PackContents>> {
+  // Lifecycle scripts (e.g., prepack builds) are not needed to list the contents
+  const result = await executeCommand(
+    "npm",
+    ["pack", "--dry-run", "--json", "--ignore-scripts"],
+    { cwd: path },
+  );
+
+  if (!result.ok) {
+    return Err(new PublishError("npm pack failed", "PACK_FAILED", result.error));
+  }
+
+  try {
+    const [report] = JSON.parse(result.value) as { files: PackFile[]; size: number }[];
+    return Ok({
+      ...toPackContents(report.files.map((f) => ({ path: f.path, size: f.size }))),
+      packedSize: report.size,
+    });
+  } catch (error) {
+    return Err(
+      new PublishError("Failed to parse npm pack output", "PACK_FAILED", error),
+    );
+  }
+}
+
+/**
+ * Extract the file URLs from `deno publish --dry-run` output
+ */
+export function parseDenoPublishFiles(output: string): string[] {
+  return [...output.matchAll(/^\s+(file:\/\/\S+)(?: \([^)]*\))?\s*$/gm)].map((m) => m[1]);
+}
+
+/**
+ * List the files `deno publish` would upload to JSR
+ */
+export async function getJsrPackContents(
+  path: string = Deno.cwd(),
+): Promise<Result<PackContents>> {
+  // --allow-dirty: this only lists files, uncommitted changes are checked before publishing
+  const result = await executeCommand(
+    "deno",
+    ["publish", "--dry-run", "--allow-dirty"],
+    { cwd: path, includeStderr: true },
+  );
+
+  if (!result.ok) {
+    return Err(new PublishError("deno publish --dry-run failed", "PACK_FAILED", result.error));
+  }
+
+  const files: PackFile[] = [];
+  const compression = new CompressionStream("gzip");
+  const writer = compression.writable.getWriter();
+  const packedSize = new Response(compression.readable).arrayBuffer()
+    .then((buffer) => buffer.byteLength);
+
+  for (const url of parseDenoPublishFiles(result.value)) {
+    const filePath = fromFileUrl(url);
+
+    // In a worktree (used for the baseline) .git is a file that deno publish doesn't skip
+    if (basename(filePath) === ".git") continue;
+
+    const content = await Deno.readFile(filePath);
+    files.push({ path: relative(path, filePath), size: content.byteLength });
+    await writer.write(content);
+  }
+  await writer.close();
+
+  // JSR uploads a gzipped tarball, the gzipped file contents are a close estimate
+  return Ok({ ...toPackContents(files), packedSize: await packedSize });
+}
+
+/**
+ * Compare package contents with the contents of a previous release
+ */
+export function diffPackContents(
+  current: PackContents,
+  previous: PackContents,
+  baseline: string,
+): PackDiff {
+  const previousFiles = new Map(previous.files.map((f) => [f.path, f.size]));
+  const currentPaths = new Set(current.files.map((f) => f.path));
+
+  const added = current.files.filter((f) => !previousFiles.has(f.path));
+  const removed = previous.files.filter((f) => !currentPaths.has(f.path));
+  const changed = current.files
+    .filter((f) => previousFiles.has(f.path) && previousFiles.get(f.path) !== f.size)
+    .map((f) => ({ path: f.path, size: f.size, previousSize: previousFiles.get(f.path)! }));
+
+  return {
+    baseline,
+    added,
+    removed,
+    changed,
+    sizeDelta: current.totalSize - previous.totalSize,
+  };
+}
+
+/**
+ * Find the tag to compare against: the release before the ref being published
+ */
+export async function findPackBaseline(
+  ref: string,
+  path: string = Deno.cwd(),
+): Promise<string | null> {
+  const tagsResult = await getTags(path);
+  return tagsResult.ok ? findPreviousTag(tagsResult.value, ref) : null;
+}
+
+/**
+ * Preview the contents of each package, compared with the baseline tag if there is one
+ */
+export async function previewPackContents(
+  packages: { pkg: PackageInfo; adapter: RegistryAdapter }[],
+  baseline: string | null,
+  path: string = Deno.cwd(),
+  logger: Logger,
+): Promise<Result<PackPreview[]>> {
+  const previews: PackPreview[] = [];
+
+  for (const { pkg, adapter } of packages) {
+    if (!adapter.pack) {
+      logger.debug(`${adapter.name} has no contents preview`);
+      continue;
+    }
+
+    const contentsResult = await adapter.pack(pkg);
+    if (!contentsResult.ok) return Err(contentsResult.error);
+
+    previews.push({ pkg, registryName: adapter.name, contents: contentsResult.value });
+  }
+
+  if (!baseline || previews.length === 0) {
+    return Ok(previews);
+  }
+
+  const rootResult = await getRepoRoot(path);
+  if (!rootResult.ok) return Err(rootResult.error);
+  const root = rootResult.value;
+
+  const worktree = await Deno.makeTempDir({ prefix: "publishjs-pack-" });
+  let hasWorktree = false;
+
+  try {
+    const worktreeResult = await addWorktree(worktree, baseline, root);
+    if (!worktreeResult.ok) {
+      logger.warn(`Could not compare with ${baseline}: ${worktreeResult.error.message}`);
+      return Ok(previews);
+    }
+    hasWorktree = true;
+
+    for (const preview of previews) {
+      const adapter = packages.find((p) => p.pkg === preview.pkg)!.adapter;
+      const baselinePath = join(worktree, relative(root, preview.pkg.path));
+      const baselinePkg = {
+        ...preview.pkg,
+        path: baselinePath,
+        manifestPath: join(baselinePath, basename(preview.pkg.manifestPath)),
+      };
+
+      // The package may not have existed at the baseline
+      const previousResult = await adapter.pack!(baselinePkg);
+      if (!previousResult.ok) {
+        logger.debug(
+          `No ${baseline} contents for ${preview.pkg.name}: ${previousResult.error.message}`,
+        );
+        continue;
+      }
+
+      preview.diff = diffPackContents(preview.contents, previousResult.value, baseline);
+    }
+  } finally {
+    if (hasWorktree) {
+      await removeWorktree(worktree, root);
+    }
+    await Deno.remove(worktree, { recursive: true }).catch(() => {});
+  }
+
+  return Ok(previews);
+}
+
+/**
+ * Format a size change (e.g., +1.2 kB)
+ */
+function formatDelta(bytes: number): string {
+  return `${bytes >= 0 ? "+" : ""}${formatBytes(bytes)}`;
+}
+
+/**
+ * Print the file list, sizes and changes of a package preview
+ */
+export function displayPackPreview(preview: PackPreview): void {
+  const { pkg, contents, diff } = preview;
+
+  console.log(`\n   ${pkg.name}@${pkg.version} (${preview.registryName})`);
+
+  const added = new Set(diff?.added.map((f) => f.path));
+  const changed = new Map(diff?.changed.map((f) => [f.path, f.size - f.previousSize]));
+
+  for (const file of contents.files) {
+    const note = added.has(file.path)
+      ? "  (new)"
+      : changed.has(file.path)
+      ? `  (${formatDelta(changed.get(file.path)!)})`
+      : "";
+    console.log(`   ${formatBytes(file.size).padStart(9)}  ${file.path}${note}`);
+  }
+
+  diff?.removed.forEach((file) => {
+    console.log(`   ${"removed".padStart(9)}  ${file.path}`);
+  });
+
+  const summary = `${contents.files.length} files, ${formatBytes(contents.totalSize)}`;
+  if (diff) {
+    const fileDelta = diff.added.length - diff.removed.length;
+    console.log(
+      `   Total: ${summary} (${formatDelta(diff.sizeDelta)}, ${
+        fileDelta >= 0 ? "+" : ""
+      }${fileDelta} files vs ${diff.baseline})`,
+    );
+  } else {
+    console.log(`   Total: ${summary}`);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Package manager detection module (npm, pnpm, yarn, bun)
+ */
+
+import { exists } from "@std/fs";
+import { dirname, join, resolve } from "@std/path";
+import { getNpmAuthEnv } from "./npm_registry.ts";
+import { Err, Ok, PublishError, Result } from "./utils.ts";
+
+export enum PackageManager {
+  NPM = "npm",
+  PNPM = "pnpm",
+  YARN = "yarn",
+  BUN = "bun",
+}
+
+export interface PackageManagerInfo {
+  manager: PackageManager;
+  version?: string; // From the packageManager field or the lockfile format, if known
+  source: string; // What the choice is based on, for display
+}
+
+export interface PublishCommand {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+/**
+ * Lockfiles in detection order
+ */
+const LOCKFILES: { file: string; manager: PackageManager }[] = [
+  { file: "pnpm-lock.yaml", manager: PackageManager.PNPM },
+  { file: "yarn.lock", manager: PackageManager.YARN },
+  { file: "bun.lock", manager: PackageManager.BUN },
+  { file: "bun.lockb", manager: PackageManager.BUN },
+  { file: "package-lock.json", manager: PackageManager.NPM },
+  { file: "npm-shrinkwrap.json", manager: PackageManager.NPM },
+];
+
+/**
+ * Parse a packageManager value such as "pnpm@9.1.0" or "yarn"
+ */
+export function parsePackageManager(
+  value: string,
+): { manager: PackageManager; version?: string } | null {
+  const match = value.trim().match(/^(npm|pnpm|yarn|bun)(?:@([^+\s]+))?/);
+  if (!match) return null;
+
+  return { manager: match[1] as PackageManager, version: match[2] };
+}
+
+/**
+ * Read the packageManager field of a directory's package.json
+ */
+async function readPackageManagerField(dir: string): Promise<string | undefined> {
+  try {
+    const manifest = JSON.parse(await Deno.readTextFile(join(dir, "package.json")));
+    return typeof manifest.packageManager === "string" ? manifest.packageManager : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detect the package manager from the config, the packageManager field or the lockfile
+ *
+ * Workspace members usually have no lockfile of their own, so parent
+ * directories are searched as well.
+ */
+export async function detectPackageManager(
+  path: string = Deno.cwd(),
+  override?: string,
+): Promise<Result<PackageManagerInfo>> {
+  if (override) {
+    const parsed = parsePackageManager(override);
+    if (!parsed) {
+      return Err(
+        new PublishError(
+          `Unknown package manager in config: ${override}. Use npm, pnpm, yarn or bun.`,
+          "PACKAGE_MANAGER_INVALID",
+        ),
+      );
+    }
+    return Ok({ ...parsed, source: "publishjs.json" });
+  }
+
+  let dir = resolve(path);
+
+  while (true) {
+    const field = await readPackageManagerField(dir);
+    const parsed = field ? parsePackageManager(field) : null;
+    if (parsed) {
+      return Ok({ ...parsed, source: `packageManager field (${field})` });
+    }
+
+    for (const lockfile of LOCKFILES) {
+      const lockfilePath = join(dir, lockfile.file);
+      if (!await exists(lockfilePath)) continue;
+
+      let version: string | undefined;
+      if (lockfile.manager === PackageManager.YARN) {
+        const content = await Deno.readTextFile(lockfilePath);
+        version = content.includes("yarn lockfile v1") ? "1" : undefined;
+      }
+
+      return Ok({ manager: lockfile.manager, version, source: lockfile.file });
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+
+  return Ok({ manager: PackageManager.NPM, source: "default" });
+}
+
+/**
+ * Check if a yarn version is yarn classic (1.x)
+ */
+function isYarnClassic(version?: string): boolean {
+  return version !== undefined && version.split(".")[0] === "1";
+}
+
+/**
+ * Get the publish command of a package manager
+ *
+ * pnpm and yarn rewrite `workspace:` ranges on publish, npm does not.
+ */
+export function getPublishCommand(
+  info: PackageManagerInfo,
+  registryUrl?: string,
+  token?: string,
+): PublishCommand {
+  const registryArgs = registryUrl ? ["--registry", registryUrl] : [];
+  const authEnv = registryUrl ? getNpmAuthEnv(registryUrl, token) : {};
+
+  switch (info.manager) {
+    case PackageManager.PNPM:
+      // publishjs already checked the branch and working tree
+      return {
+        command: "pnpm",
+        args: ["publish", ...registryArgs, "--no-git-checks"],
+        env: authEnv,
+      };
+
+    case PackageManager.YARN:
+      if (isYarnClassic(info.version)) {
+        return {
+          command: "yarn",
+          args: ["publish", ...registryArgs, "--non-interactive"],
+          env: authEnv,
+        };
+      }
+
+      // Yarn Berry ignores npm config, so pass the registry and token through its own settings
+      return {
+        command: "yarn",
+        args: ["npm", "publish"],
+        env: {
+          ...(registryUrl ? { YARN_NPM_PUBLISH_REGISTRY: registryUrl } : {}),
+          ...(token ? { YARN_NPM_AUTH_TOKEN: token } : {}),
+        },
+      };
+
+    case PackageManager.BUN:
+      return {
+        command: "bun",
+        args: ["publish", ...registryArgs],
+        env: { ...authEnv, ...(token ? { NPM_CONFIG_TOKEN: token } : {}) },
+      };
+
+    default:
+      return { command: "npm", args: ["publish", ...registryArgs], env: authEnv };
+  }
+}
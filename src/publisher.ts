@@ -2,40 +2,70 @@
  * Main publisher orchestration module for publishjs
  */
 
-import { verifyAuth } from "./auth.ts";
+import { globToRegExp, join, relative } from "@std/path";
+import { getTokenFromEnv, verifyAuth } from "./auth.ts";
 import { autoCommitChanges, hasUncommittedChanges } from "./auto_commit.ts";
 import { autoInitializeGit, needsGitInit } from "./auto_init.ts";
 import { autoCreateRemote, needsRemoteSetup } from "./auto_remote.ts";
+import { enforceSizeBudgets } from "./budget.ts";
+import { updateChangelog } from "./changelog.ts";
+import { DEFAULT_PROTECTED_BRANCHES, loadConfig, PublishConfig } from "./config.ts";
+import { displayVersionInference, inferNextVersion } from "./conventional.ts";
+import { resolveGates, runGates } from "./gates.ts";
 import {
+  addWorktree,
+  commitFiles,
   createTag,
+  deleteTag,
+  ForcePushLease,
   getBranches,
+  getBranchesContaining,
+  getChangedFiles,
+  getCommits,
+  getForcePushLeases,
   getGitStatus,
+  getRepoRoot,
   getTags,
+  getUpstreamStatus,
+  getUserIdentity,
+  isAncestor,
   isGitInstalled,
+  pull,
   push,
+  removeWorktree,
+  resetBranch,
+  resolveRef,
 } from "./git.ts";
+import { HookContext, HookName, HookRunOptions, runHooks, validateHooks } from "./hooks.ts";
 import {
   promptConfirmPublish,
   promptCreateTag,
   promptPublishType,
   promptSelectBranch,
+  promptSelectPackages,
   promptSelectRegistries,
   promptSelectTag,
+  promptSyncUpstream,
+  promptTypeToConfirm,
 } from "./interactive.ts";
-import { autoFixJsrConfig, validateJsrConfig } from "./jsr_validator.ts";
-import { verifyJsrAuth } from "./jsr_auth.ts";
+import { cleanupNpmBuilds } from "./npm_build.ts";
+import { displayPackPreview, findPackBaseline, previewPackContents } from "./pack.ts";
 import {
   getPrimaryRemote,
   RemoteInfo,
 } from "./remote.ts";
+import { createRelease, getReleaseNotes, isPrereleaseTag, supportsReleases } from "./release.ts";
 import {
   detectRegistries,
-  getRegistryName,
+  getAdapter,
+  loadRegistryAdapters,
   PackageInfo,
-  publishToRegistry,
-  RegistryType,
+  PublishTargetOptions,
+  RegistryAdapter,
+  validatePackage,
 } from "./registry.ts";
 import { Err, Logger, Ok, PublishError, Result } from "./utils.ts";
+import { detectWorkspacePackages, sortByDependencies } from "./workspace.ts";
 
 export interface PublishOptions {
   branch?: string;
@@ -44,7 +74,17 @@ export interface PublishOptions {
   remote?: string;
   skipRegistries?: boolean;
   registries?: string[];
-  force?: boolean;
+  force?: boolean; // Push with --force-with-lease
+  changelog?: boolean;
+  release?: boolean;
+  releaseNotes?: string;
+  draft?: boolean;
+  prerelease?: boolean;
+  otp?: string; // npm one-time password (falls back to NPM_OTP)
+  ignoreBudget?: boolean; // Publish even if a size budget is exceeded
+  skipGates?: boolean; // Don't run the quality gates (noted in the summary)
+  allowDirty?: boolean; // Pass --allow-dirty to deno publish
+  overrideBranchPolicy?: string; // Reason to publish outside the release branches
   dryRun?: boolean;
   verbose?: boolean;
 }
@@ -53,11 +93,21 @@ export interface PublishContext {
   gitRef: string; // Branch or tag to publish
   remote: RemoteInfo;
   registries: PackageInfo[];
-  selectedRegistries: RegistryType[];
+  selectedPackages: PackageInfo[]; // In publish (dependency) order
+}
+
+const SKIPPED_GATES_NOTE = "Quality gates skipped with --skip-gates";
+
+interface GitRefSelection {
+  ref: string;
+  policyOverride?: string; // Who published outside the release branches, and why
+  newTag?: { message?: string }; // Tag to create on HEAD once the publish is confirmed
 }
 
 /**
  * Main publish workflow
+ *
+ * The onFailure hooks run when any phase fails.
  */
 export async function publish(
   options: PublishOptions,
@@ -65,37 +115,84 @@ export async function publish(
 ): Promise<Result<void>> {
   const logger = new Logger(options.verbose);
 
+  const configResult = await loadConfig(path);
+  if (!configResult.ok) return Err(configResult.error);
+  const config = configResult.value;
+
+  const hooksResult = validateHooks(config.hooks);
+  if (!hooksResult.ok) return Err(hooksResult.error);
+
+  // Filled in as the workflow learns the ref, remote and registries
+  const hookContext: HookContext = { registries: [] };
+  const result = await runPublishWorkflow(options, config, hookContext, path, logger);
+
+  // The npm builds without an outDir live in temporary directories
+  await cleanupNpmBuilds();
+
+  if (!result.ok) {
+    hookContext.error = result.error.message;
+    const failureResult = await runHooks(config.hooks, HookName.ON_FAILURE, hookContext, {
+      path,
+      dryRun: options.dryRun,
+      logger,
+    });
+    if (!failureResult.ok) {
+      logger.warn(failureResult.error.message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run the publish phases, from the Git checks to the registries
+ */
+async function runPublishWorkflow(
+  options: PublishOptions,
+  config: PublishConfig,
+  hookContext: HookContext,
+  path: string,
+  logger: Logger,
+): Promise<Result<void>> {
+  const hookOptions: HookRunOptions = { path, dryRun: options.dryRun, logger };
+
   try {
+    const adaptersResult = await loadRegistryAdapters(config, path, logger);
+    if (!adaptersResult.ok) return Err(adaptersResult.error);
+    const adapters = adaptersResult.value;
+
     // Phase 1: Verify Git
     logger.section("🔍 Checking Git setup");
     const gitResult = await verifyGitSetup(path, logger);
     if (!gitResult.ok) return Err(gitResult.error);
+    const repoRoot = gitResult.value;
 
     // Phase 2: Verify Remote (auto-create if needed)
     logger.section("🌐 Checking remote repository");
 
     let remote: RemoteInfo;
 
-    if (await needsRemoteSetup(path)) {
-      const autoRemoteResult = await autoCreateRemote(path, logger);
+    if (await needsRemoteSetup(repoRoot)) {
+      const autoRemoteResult = await autoCreateRemote(repoRoot, logger);
       if (!autoRemoteResult.ok) {
         return Err(autoRemoteResult.error);
       }
 
       // Get remote info after creation
-      const remoteResult = await getPrimaryRemote(path);
+      const remoteResult = await getPrimaryRemote(repoRoot);
       if (!remoteResult.ok) {
         return Err(remoteResult.error);
       }
       remote = remoteResult.value;
     } else {
-      const remoteResult = await getPrimaryRemote(path);
+      const remoteResult = await getPrimaryRemote(repoRoot);
       if (!remoteResult.ok) {
         return Err(remoteResult.error);
       }
       remote = remoteResult.value;
       logger.success(`Remote: ${remote.name} (${remote.platform})`);
     }
+    hookContext.remote = remote.name;
 
     // Phase 3: Verify Authentication
     logger.section("🔐 Verifying authentication");
@@ -103,15 +200,15 @@ export async function publish(
       remote.url,
       remote.platform,
       options.remote || "origin",
-      path,
+      repoRoot,
       logger,
     );
     if (!authResult.ok) return Err(authResult.error);
     logger.success("Authentication verified");
 
     // Phase 4: Check for uncommitted changes
-    if (await hasUncommittedChanges(path)) {
-      const commitResult = await autoCommitChanges(path, logger);
+    if (await hasUncommittedChanges(repoRoot)) {
+      const commitResult = await autoCommitChanges(repoRoot, logger);
       if (!commitResult.ok) {
         const error = commitResult.error;
         if (error instanceof PublishError && error.code === "COMMIT_DECLINED") {
@@ -124,135 +221,380 @@ export async function publish(
 
     // Phase 5: Determine what to publish
     logger.section("📦 Determining what to publish");
-    const refResult = await determineGitRef(options, path, logger);
+    const refResult = await determineGitRef(options, config, path, logger);
     if (!refResult.ok) return Err(refResult.error);
-    const gitRef = refResult.value;
-    logger.success(`Publishing: ${gitRef}`);
+    const refSelection = refResult.value;
+    const { ref: gitRef, policyOverride, newTag } = refSelection;
+    logger.success(`Publishing: ${gitRef}${newTag ? " (new tag)" : ""}`);
+    hookContext.ref = gitRef;
+
+    const isTagRef = newTag !== undefined || await isTag(gitRef, path);
+    let pushRefs = await getPushRefs(refSelection, isTagRef, path);
+
+    // Never publish from a stale branch (a force push means to overwrite it)
+    const pushedBranch = pushRefs.find((ref) => ref.startsWith("refs/heads/"));
+    if (!options.force && pushedBranch) {
+      logger.section("🔄 Checking upstream");
+      const syncResult = await verifyUpstreamSync(
+        pushedBranch.slice("refs/heads/".length),
+        path,
+        logger,
+      );
+      if (!syncResult.ok) return Err(syncResult.error);
+
+      // A pull moves the branch tip
+      pushRefs = await getPushRefs(refSelection, isTagRef, path);
+    }
 
-    // Phase 6: Detect registries
+    // Phase 6: Detect registries (and workspace members)
     logger.section("📚 Detecting package registries");
-    const registries = await detectRegistries(path);
-    if (registries.length > 0) {
-      registries.forEach((reg) => {
-        logger.info(
-          `Found ${getRegistryName(reg.registry)}: ${reg.name}@${reg.version}`,
-        );
+    const registries = await detectRegistries(path, adapters);
+    const workspacePackages = await detectWorkspacePackages(path, adapters);
+    const isWorkspace = workspacePackages.length > 0;
+
+    const availablePackages = [...registries, ...workspacePackages];
+    if (availablePackages.length > 0) {
+      availablePackages.forEach((pkg) => {
+        logger.info(`Found ${formatPackage(pkg, path, adapters)}`);
       });
     } else {
       logger.info("No package registries detected (npm/jsr)");
     }
 
-    // Phase 7: Select registries to publish to
-    let selectedRegistries: RegistryType[] = [];
-    if (!options.skipRegistries && registries.length > 0) {
+    // Phase 7: Select registries (or workspace packages) to publish to
+    let selectedPackages: PackageInfo[] = [];
+    if (!options.skipRegistries && isWorkspace) {
+      const selectedResult = await promptSelectPackages(
+        availablePackages.map((pkg) => formatPackage(pkg, path, adapters)),
+      );
+      if (!selectedResult.ok) return Err(selectedResult.error);
+
+      const selected = availablePackages.filter((pkg) =>
+        selectedResult.value.includes(formatPackage(pkg, path, adapters))
+      );
+
+      // Dependencies must be published before the packages that use them
+      const sortedResult = await sortByDependencies(selected);
+      if (!sortedResult.ok) return Err(sortedResult.error);
+      selectedPackages = sortedResult.value;
+    } else if (!options.skipRegistries && registries.length > 0) {
       const availableRegistries = registries.map((r) =>
-        getRegistryName(r.registry)
+        getAdapter(adapters, r.registry)!.name
       );
       const selectedResult = await promptSelectRegistries(availableRegistries);
       if (!selectedResult.ok) return Err(selectedResult.error);
 
-      selectedRegistries = selectedResult.value.map((name) =>
-        name === "npm" ? RegistryType.NPM : RegistryType.JSR
+      selectedPackages = registries.filter((r) =>
+        selectedResult.value.includes(getAdapter(adapters, r.registry)!.name)
       );
     }
 
-    // Phase 8: Validate JSR configuration if publishing to JSR
-    if (selectedRegistries.includes(RegistryType.JSR)) {
-      logger.section("🔍 Validating JSR configuration");
+    // Phase 8: Validate package configuration and registry authentication
+    const targetOptions: PublishTargetOptions = {
+      otp: options.otp,
+      allowDirty: options.allowDirty,
+    };
+    let fixedFiles: string[] = [];
+    if (selectedPackages.length > 0) {
+      logger.section("🔍 Validating registry configuration");
+      const changesBefore = await getChangedFiles(repoRoot);
+      const validatedResult = await validateSelectedPackages(
+        selectedPackages,
+        adapters,
+        targetOptions,
+        logger,
+      );
+      if (!validatedResult.ok) return Err(validatedResult.error);
+      selectedPackages = validatedResult.value;
 
-      const jsrValidationResult = await validateJsrConfig(path);
-      if (!jsrValidationResult.ok) {
-        return Err(jsrValidationResult.error);
+      // Manifests rewritten by the fixes are committed along with the release
+      const changesAfter = await getChangedFiles(repoRoot);
+      if (changesBefore.ok && changesAfter.ok) {
+        fixedFiles = changesAfter.value.filter((file) => !changesBefore.value.includes(file));
       }
+      const fixesResult = await verifyFixesPublishable(fixedFiles, refSelection, path);
+      if (!fixesResult.ok) return Err(fixesResult.error);
+    }
 
-      const jsrValidation = jsrValidationResult.value;
-
-      if (!jsrValidation.isValid) {
-        logger.warn("JSR configuration has issues");
-        const fixResult = await autoFixJsrConfig(jsrValidation, path, logger);
-
-        if (!fixResult.ok) {
-          const error = fixResult.error;
-          if (error instanceof PublishError && error.code === "AUTO_FIX_DECLINED") {
-            logger.warn("Publishing to JSR skipped");
-            selectedRegistries = selectedRegistries.filter((r) =>
-              r !== RegistryType.JSR
-            );
-          } else {
-            return Err(error);
-          }
-        } else {
-          logger.success("JSR configuration fixed");
-        }
+    // Make sure none of the versions has been published already
+    if (selectedPackages.length > 0) {
+      logger.section("🔎 Checking published versions");
+      const versionsResult = await verifyVersionsUnpublished(
+        selectedPackages,
+        adapters,
+        logger,
+      );
+      if (!versionsResult.ok) return Err(versionsResult.error);
+    }
+
+    // Show what will actually be uploaded and enforce the size budgets
+    let ignoredBudgets: string[] = [];
+    if (selectedPackages.length > 0) {
+      logger.section("📦 Package contents");
+      const hasBudgets = selectedPackages.some((pkg) => config.budgets?.[pkg.registry]);
+      const previewResult = await previewPackContents(
+        selectedPackages.map((pkg) => ({ pkg, adapter: getAdapter(adapters, pkg.registry)! })),
+        await findPackBaseline(newTag ? "HEAD" : gitRef, path),
+        path,
+        logger,
+      );
+
+      if (previewResult.ok) {
+        previewResult.value.forEach(displayPackPreview);
+      } else if (hasBudgets) {
+        // Budgets can't be enforced without the package contents
+        return Err(previewResult.error);
       } else {
-        logger.success("JSR configuration is valid");
+        logger.warn(`Could not preview package contents: ${previewResult.error.message}`);
       }
 
-      // Verify JSR authentication
-      if (selectedRegistries.includes(RegistryType.JSR)) {
-        const jsrAuthResult = await verifyJsrAuth(logger);
-        if (!jsrAuthResult.ok) {
-          logger.warn("JSR authentication not configured");
-          logger.info("Skipping JSR publishing");
-          selectedRegistries = selectedRegistries.filter((r) =>
-            r !== RegistryType.JSR
-          );
-        }
+      if (previewResult.ok && hasBudgets) {
+        logger.section("📏 Checking size budgets");
+        const unchecked = selectedPackages.filter((pkg) =>
+          config.budgets?.[pkg.registry] && !getAdapter(adapters, pkg.registry)!.pack
+        );
+        unchecked.forEach((pkg) => {
+          logger.warn(`${getAdapter(adapters, pkg.registry)!.name} can't check size budgets`);
+        });
+
+        const budgetResult = enforceSizeBudgets(
+          previewResult.value,
+          config.budgets,
+          options.ignoreBudget ?? false,
+          logger,
+        );
+        if (!budgetResult.ok) return Err(budgetResult.error);
+        ignoredBudgets = budgetResult.value;
       }
     }
 
+    const selectedLabels: string[] = [];
+    for (const pkg of selectedPackages) {
+      const adapter = getAdapter(adapters, pkg.registry)!;
+      const label = isWorkspace ? formatPackage(pkg, path, adapters) : adapter.name;
+      const url = adapter.resolveUrl ? await adapter.resolveUrl(pkg) : undefined;
+      selectedLabels.push(url ? `${label} → ${url}` : label);
+    }
+
+    // Quality gates: nothing is pushed unless the project checks pass
+    const overrides = [
+      ...(policyOverride ? [policyOverride] : []),
+      ...(options.skipGates ? [SKIPPED_GATES_NOTE] : []),
+    ];
+    if (options.skipGates) {
+      logger.section("🚦 Quality gates");
+      logger.warn("Quality gates skipped (--skip-gates)");
+    } else {
+      const gatesResult = await runQualityGates(
+        newTag ? "HEAD" : gitRef,
+        config,
+        path,
+        repoRoot,
+        logger,
+      );
+      if (!gatesResult.ok) return Err(gatesResult.error);
+    }
+
+    const remoteName = options.remote || "origin";
+
+    // Show what a force push would overwrite before asking for confirmation
+    let leases: ForcePushLease[] | undefined;
+    if (options.force) {
+      logger.section("⚠️  Force push");
+      const leasesResult = await getForcePushLeases(remoteName, pushRefs, path);
+      if (!leasesResult.ok) return Err(leasesResult.error);
+      leases = leasesResult.value;
+      displayForcePushLeases(leases, remoteName, logger);
+    }
+
     // Phase 9: Confirm publish
     if (!options.dryRun) {
       const confirmed = await promptConfirmPublish(
-        gitRef,
+        formatPushRefs(pushRefs),
         remote.name,
-        selectedRegistries.map(getRegistryName),
+        selectedLabels,
+        overrides,
       );
 
       if (!confirmed) {
         logger.warn("Publish cancelled by user");
         return Ok(undefined);
       }
+
+      // Overwriting a protected branch takes typing its name
+      for (const branch of getProtectedBranches(leases ?? [], config)) {
+        const typed = await promptTypeToConfirm(
+          branch,
+          `Type "${branch}" to force push the protected branch:`,
+        );
+        if (!typed) {
+          logger.warn(`Force push to ${branch} not confirmed, publish cancelled`);
+          return Ok(undefined);
+        }
+      }
     }
 
+    const shouldRelease = options.release !== false &&
+      (supportsReleases(remote.platform) || config.release?.apiUrl !== undefined) &&
+      isTagRef;
+
+    hookContext.registries = selectedPackages.map((pkg) => pkg.registry);
+    hookContext.version = isTagRef
+      ? gitRef.replace(/^v(?=\d)/, "")
+      : selectedPackages[0]?.version;
+
     // Phase 10: Execute publish
     if (options.dryRun) {
       logger.info("🏃 Dry run - no changes will be made");
-      logger.info(`Would push: ${gitRef} → ${remote.name}`);
-      if (selectedRegistries.length > 0) {
+      if (fixedFiles.length > 0) {
+        logger.info(`Would commit the configuration fixes: ${fixedFiles.join(", ")}`);
+      }
+      await runHooks(config.hooks, HookName.PRE_PUBLISH, hookContext, hookOptions);
+      if (newTag) {
+        const tagResult = await createReleaseTag(refSelection, options, path, logger);
+        if (!tagResult.ok) return Err(tagResult.error);
+      }
+      getProtectedBranches(leases ?? [], config).forEach((branch) => {
+        logger.info(`Would ask to type "${branch}" to force push the protected branch`);
+      });
+      logger.info(
+        `Would ${leases ? "force push" : "push"}: ${formatPushRefs(pushRefs)} → ${remoteName}`,
+      );
+      await runHooks(config.hooks, HookName.POST_GIT_PUSH, hookContext, hookOptions);
+      if (selectedPackages.length > 0) {
         logger.info(
-          `Would publish to: ${selectedRegistries.map(getRegistryName).join(", ")}`,
+          `Would publish to: ${selectedLabels.join(", ")}`,
         );
       }
+      for (const pkg of selectedPackages) {
+        const registryContext = getRegistryHookContext(hookContext, pkg);
+        await runHooks(config.hooks, HookName.PRE_REGISTRY, registryContext, hookOptions);
+        await runHooks(config.hooks, HookName.POST_REGISTRY, registryContext, hookOptions);
+      }
+      if (shouldRelease) {
+        logger.info(`Would create ${remote.platform} release: ${gitRef}`);
+      }
+      await runHooks(config.hooks, HookName.POST_PUBLISH, hookContext, hookOptions);
+      displayIgnoredBudgets(ignoredBudgets, logger);
+      overrides.forEach((note) => logger.warn(note));
       return Ok(undefined);
     }
 
     logger.section("🚀 Publishing");
 
-    // Push to Git
+    const prePublishResult = await runHooks(
+      config.hooks,
+      HookName.PRE_PUBLISH,
+      hookContext,
+      hookOptions,
+    );
+    if (!prePublishResult.ok) return Err(prePublishResult.error);
+
+    // Nothing is committed or tagged until the publish is confirmed, and it is
+    // undone if the push doesn't go through
+    const headBefore = await resolveRef("HEAD", path);
+    const undoRelease = (error: Error) =>
+      rollbackRelease(error, headBefore, newTag ? gitRef : undefined, path, logger);
+
+    if (fixedFiles.length > 0) {
+      const commitResult = await commitFiles(
+        fixedFiles,
+        "chore: fix package configuration for publishing",
+        repoRoot,
+        logger,
+      );
+      if (!commitResult.ok) return Err(commitResult.error);
+    }
+
+    if (newTag) {
+      logger.section("🔖 Tagging release");
+      const tagResult = await createReleaseTag(refSelection, options, path, logger);
+      if (!tagResult.ok) return await undoRelease(tagResult.error);
+    }
+
+    // Push to Git (a tag together with its branch, atomically)
     const pushResult = await push(
-      options.remote || "origin",
-      gitRef,
-      { force: options.force },
+      remoteName,
+      pushRefs,
+      { leases, atomic: pushRefs.length > 1, followTags: isTagRef },
       path,
       logger,
     );
     if (!pushResult.ok) {
-      return Err(pushResult.error);
+      return await undoRelease(pushResult.error);
     }
 
-    // Publish to registries
-    for (const registry of selectedRegistries) {
-      const publishResult = await publishToRegistry(registry, path, logger);
+    const postPushResult = await runHooks(
+      config.hooks,
+      HookName.POST_GIT_PUSH,
+      hookContext,
+      hookOptions,
+    );
+    if (!postPushResult.ok) return Err(postPushResult.error);
+
+    // Publish to registries, from each package's own directory
+    const failed: string[] = [];
+    for (const pkg of selectedPackages) {
+      const adapter = getAdapter(adapters, pkg.registry)!;
+      const registryContext = getRegistryHookContext(hookContext, pkg);
+
+      const preRegistryResult = await runHooks(
+        config.hooks,
+        HookName.PRE_REGISTRY,
+        registryContext,
+        hookOptions,
+      );
+      if (!preRegistryResult.ok) return Err(preRegistryResult.error);
+
+      const publishResult = await adapter.publish(pkg, logger, targetOptions);
       if (!publishResult.ok) {
         logger.error(
-          `Failed to publish to ${getRegistryName(registry)}: ${publishResult.error.message}`,
+          `Failed to publish ${pkg.name} to ${adapter.name}: ${publishResult.error.message}`,
         );
         // Continue with other registries even if one fails
+        failed.push(`${pkg.name} (${adapter.name})`);
+        continue;
       }
+
+      const postRegistryResult = await runHooks(
+        config.hooks,
+        HookName.POST_REGISTRY,
+        registryContext,
+        hookOptions,
+      );
+      if (!postRegistryResult.ok) return Err(postRegistryResult.error);
     }
 
+    if (failed.length > 0) {
+      return Err(
+        new PublishError(
+          `Failed to publish ${failed.join(", ")}`,
+          "REGISTRY_PUBLISH_FAILED",
+          failed,
+        ),
+      );
+    }
+
+    // Create a release on the hosting platform for tag publishes
+    if (shouldRelease) {
+      logger.section("🏷️  Creating release");
+      const releaseResult = await publishRelease(gitRef, remote, options, config, path, logger);
+      if (!releaseResult.ok) {
+        return Err(releaseResult.error);
+      }
+    }
+
+    const postPublishResult = await runHooks(
+      config.hooks,
+      HookName.POST_PUBLISH,
+      hookContext,
+      hookOptions,
+    );
+    if (!postPublishResult.ok) return Err(postPublishResult.error);
+
     logger.section("✅ Publish complete");
+    displayIgnoredBudgets(ignoredBudgets, logger);
+    overrides.forEach((note) => logger.warn(note));
     return Ok(undefined);
   } catch (error) {
     return Err(
@@ -266,12 +608,372 @@ export async function publish(
 }
 
 /**
- * Verify Git is installed and repository is initialized
+ * Undo the release commits and the new tag after a failure before the push
+ *
+ * A retry can then create them again. Returns the original error.
  */
-async function verifyGitSetup(
+async function rollbackRelease(
+  error: Error,
+  headBefore: string,
+  newTag: string | undefined,
+  path: string,
+  logger: Logger,
+): Promise<Result<void>> {
+  if (newTag && await isTag(newTag, path)) {
+    const deleteResult = await deleteTag(newTag, path);
+    if (deleteResult.ok) {
+      logger.warn(`Deleted tag ${newTag}`);
+    } else {
+      logger.warn(`${deleteResult.error.message}, delete it before retrying`);
+    }
+  }
+
+  if (headBefore && await resolveRef("HEAD", path) !== headBefore) {
+    const resetResult = await resetBranch(headBefore, path);
+    if (resetResult.ok) {
+      logger.warn(`Undid the release commits (back to ${headBefore.slice(0, 7)})`);
+    } else {
+      logger.warn(`${resetResult.error.message}, undo the release commits before retrying`);
+    }
+  }
+
+  return Err(error);
+}
+
+/**
+ * Run the quality gates on the commit being published
+ *
+ * A ref other than HEAD is checked out into a temporary worktree, so the
+ * gates check what is published rather than the working tree.
+ */
+async function runQualityGates(
+  ref: string,
+  config: PublishConfig,
+  path: string,
+  repoRoot: string,
+  logger: Logger,
+): Promise<Result<void>> {
+  const isHead = await resolveRef(`${ref}^{commit}`, path) === await resolveRef("HEAD", path);
+  if (isHead) {
+    return await runProjectGates(path, config, logger);
+  }
+
+  const worktree = await Deno.makeTempDir({ prefix: "publishjs-gates-" });
+  let hasWorktree = false;
+
+  try {
+    const worktreeResult = await addWorktree(worktree, ref, repoRoot);
+    if (!worktreeResult.ok) return Err(worktreeResult.error);
+    hasWorktree = true;
+
+    logger.debug(`Running the quality gates of ${ref} in ${worktree}`);
+    return await runProjectGates(join(worktree, relative(repoRoot, path)), config, logger);
+  } finally {
+    if (hasWorktree) {
+      await removeWorktree(worktree, repoRoot);
+    }
+    await Deno.remove(worktree, { recursive: true }).catch(() => {});
+  }
+}
+
+/**
+ * Run the configured or default quality gates of a project directory
+ */
+async function runProjectGates(
+  path: string,
+  config: PublishConfig,
+  logger: Logger,
+): Promise<Result<void>> {
+  const gatesResult = await resolveGates(path, config);
+  if (!gatesResult.ok) return Err(gatesResult.error);
+
+  if (gatesResult.value.length === 0) {
+    logger.debug("No quality gates configured or found in deno.json/package.json");
+    return Ok(undefined);
+  }
+
+  logger.section("🚦 Quality gates");
+  return await runGates(gatesResult.value, path, logger);
+}
+
+/**
+ * Add the registry and package to the hook context of a registry hook
+ */
+function getRegistryHookContext(context: HookContext, pkg: PackageInfo): HookContext {
+  return { ...context, registry: pkg.registry, packageName: pkg.name, version: pkg.version };
+}
+
+/**
+ * Run each adapter's configuration and authentication checks
+ *
+ * Packages whose fix was declined or whose registry isn't authenticated are
+ * dropped from the selection.
+ */
+async function validateSelectedPackages(
+  packages: PackageInfo[],
+  adapters: RegistryAdapter[],
+  targetOptions: PublishTargetOptions,
+  logger: Logger,
+): Promise<Result<PackageInfo[]>> {
+  let validated: PackageInfo[] = [];
+
+  for (const pkg of packages) {
+    const adapter = getAdapter(adapters, pkg.registry)!;
+    const validateResult = adapter.validate
+      ? await adapter.validate(pkg, logger, targetOptions)
+      : Ok(undefined);
+
+    if (validateResult.ok) {
+      validated.push(pkg);
+      continue;
+    }
+
+    const error = validateResult.error;
+    if (error instanceof PublishError && error.code === "AUTO_FIX_DECLINED") {
+      logger.warn(`Publishing ${pkg.name} to ${adapter.name} skipped`);
+    } else {
+      return Err(error);
+    }
+  }
+
+  const usedAdapters = adapters.filter((a) => validated.some((p) => p.registry === a.id));
+
+  for (const adapter of usedAdapters) {
+    if (!adapter.checkAuth) continue;
+
+    const authResult = await adapter.checkAuth(logger);
+    if (!authResult.ok) {
+      logger.warn(`${adapter.name} authentication not configured`);
+      logger.info(`Skipping ${adapter.name} publishing`);
+      validated = validated.filter((p) => p.registry !== adapter.id);
+    }
+  }
+
+  return Ok(validated);
+}
+
+/**
+ * Make sure configuration fixes can be part of the published ref
+ *
+ * They're committed on top of HEAD, so only the checked out branch or a new
+ * tag can include them.
+ */
+async function verifyFixesPublishable(
+  fixedFiles: string[],
+  selection: GitRefSelection,
+  path: string,
+): Promise<Result<void>> {
+  if (fixedFiles.length === 0 || selection.newTag) return Ok(undefined);
+
+  const statusResult = await getGitStatus(path);
+  if (statusResult.ok && statusResult.value.currentBranch === selection.ref) {
+    return Ok(undefined);
+  }
+
+  return Err(
+    new PublishError(
+      `The fixes to ${fixedFiles.join(", ")} aren't part of ${selection.ref}. ` +
+        "Commit them and publish a new tag or the checked out branch.",
+      "CONFIG_FIX_UNPUBLISHABLE",
+    ),
+  );
+}
+
+/**
+ * Check every selected registry for an existing release of the current version
+ */
+async function verifyVersionsUnpublished(
+  packages: PackageInfo[],
+  adapters: RegistryAdapter[],
+  logger: Logger,
+): Promise<Result<void>> {
+  const published: string[] = [];
+
+  for (const pkg of packages) {
+    const adapter = getAdapter(adapters, pkg.registry)!;
+    const registryName = adapter.name;
+    const validateResult = await validatePackage(adapter, pkg);
+
+    if (validateResult.ok) {
+      logger.success(`${registryName}: ${pkg.name}@${pkg.version} not yet published`);
+      continue;
+    }
+
+    const error = validateResult.error;
+    if (error instanceof PublishError && error.code === "VERSION_EXISTS") {
+      logger.error(error.message);
+      published.push(`${registryName} (${pkg.name}@${pkg.version})`);
+    } else if (error instanceof PublishError && error.code === "VERSION_CHECK_FAILED") {
+      logger.warn(`Could not check ${registryName}: ${error.message}`);
+    } else {
+      return Err(error);
+    }
+  }
+
+  if (published.length > 0) {
+    logger.info("Bump the version (e.g., 'publishjs bump patch') and try again");
+    return Err(
+      new PublishError(
+        `Version already published to: ${published.join(", ")}`,
+        "VERSION_EXISTS",
+      ),
+    );
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Record size budgets overridden with --ignore-budget in the publish summary
+ */
+function displayIgnoredBudgets(ignoredBudgets: string[], logger: Logger): void {
+  if (ignoredBudgets.length === 0) return;
+
+  logger.warn("Size budget overridden with --ignore-budget:");
+  ignoredBudgets.forEach((budget) => logger.warn(`  ${budget}`));
+}
+
+/**
+ * Format a package for display, including its workspace member path
+ */
+function formatPackage(
+  pkg: PackageInfo,
+  root: string,
+  adapters: RegistryAdapter[],
+): string {
+  const member = relative(root, pkg.path);
+  const location = member ? ` (${member})` : "";
+  return `${getAdapter(adapters, pkg.registry)!.name}: ${pkg.name}@${pkg.version}${location}`;
+}
+
+/**
+ * Get the refs to push: a tag on the current branch goes together with the branch
+ *
+ * Otherwise the release commit of a new tag would never reach the remote. A
+ * tag that isn't in the branch's history is pushed alone.
+ */
+async function getPushRefs(
+  selection: GitRefSelection,
+  isTagRef: boolean,
+  path: string,
+): Promise<string[]> {
+  const gitRef = selection.ref;
+  if (!isTagRef) return [`refs/heads/${gitRef}`];
+
+  const statusResult = await getGitStatus(path);
+  const branch = statusResult.ok ? statusResult.value.currentBranch : null;
+  if (!branch) return [`refs/tags/${gitRef}`];
+
+  // A new tag will be created on HEAD, the branch tip
+  const branchRef = `refs/heads/${branch}`;
+  if (selection.newTag || await isAncestor(gitRef, branchRef, path)) {
+    return [branchRef, `refs/tags/${gitRef}`];
+  }
+
+  return [`refs/tags/${gitRef}`];
+}
+
+/**
+ * Show the remote commits and tags a force push would replace
+ */
+function displayForcePushLeases(
+  leases: ForcePushLease[],
+  remote: string,
+  logger: Logger,
+): void {
+  for (const lease of leases) {
+    const name = lease.ref.replace(/^refs\/(heads|tags)\//, "");
+
+    const isMovedTag = lease.ref.startsWith("refs/tags/") && lease.expected &&
+      lease.expected !== lease.local;
+
+    if (lease.discarded.length > 0) {
+      const count = lease.discarded.length;
+      logger.warn(`Force pushing ${name} discards ${count} commit(s) from ${remote}/${name}:`);
+      lease.discarded.forEach((commit) => {
+        logger.warn(`  ${commit.hash.slice(0, 7)} ${commit.subject}`);
+      });
+    } else if (isMovedTag) {
+      logger.warn(`Force pushing ${name} replaces ${lease.expected.slice(0, 7)} on ${remote}`);
+    } else {
+      logger.info(`${name}: nothing on ${remote} would be overwritten`);
+    }
+  }
+
+  logger.info(`Leased against the last fetched state of ${remote}, the push fails if it moved`);
+}
+
+/**
+ * Get the protected branches among the force-pushed refs
+ */
+function getProtectedBranches(leases: ForcePushLease[], config: PublishConfig): string[] {
+  const patterns = (config.protectedBranches ?? DEFAULT_PROTECTED_BRANCHES)
+    .map((pattern) => globToRegExp(pattern));
+
+  return leases
+    .map((lease) => lease.ref.match(/^refs\/heads\/(.+)$/)?.[1])
+    .filter((branch): branch is string => !!branch && patterns.some((p) => p.test(branch)));
+}
+
+/**
+ * Format refs for display (main and v1.0.0)
+ */
+function formatPushRefs(refs: string[]): string {
+  const names = refs.map((ref) => ref.replace(/^refs\/(heads|tags)\//, ""));
+  return `${names.join(" and ")}${refs.length > 1 ? " (atomic)" : ""}`;
+}
+
+/**
+ * Check if a ref is an existing tag
+ */
+async function isTag(ref: string, path: string): Promise<boolean> {
+  const tagsResult = await getTags(path);
+  return tagsResult.ok && tagsResult.value.includes(ref);
+}
+
+/**
+ * Create the hosting platform release for a pushed tag
+ */
+async function publishRelease(
+  tag: string,
+  remote: RemoteInfo,
+  options: PublishOptions,
+  config: PublishConfig,
   path: string,
   logger: Logger,
 ): Promise<Result<void>> {
+  if (!getTokenFromEnv(remote.platform)) {
+    logger.warn(`No ${remote.platform} API token found, skipping release creation`);
+    logger.info("Set GITHUB_TOKEN or GITLAB_TOKEN to create releases automatically");
+    return Ok(undefined);
+  }
+
+  const notesResult = await getReleaseNotes(tag, options.releaseNotes, path);
+  if (!notesResult.ok) return Err(notesResult.error);
+
+  const releaseResult = await createRelease(
+    remote,
+    {
+      tag,
+      notes: notesResult.value,
+      draft: options.draft ?? config.release?.draft,
+      prerelease: options.prerelease ?? config.release?.prerelease ?? isPrereleaseTag(tag),
+      apiUrl: config.release?.apiUrl,
+    },
+    logger,
+  );
+  if (!releaseResult.ok) return Err(releaseResult.error);
+
+  return Ok(undefined);
+}
+
+/**
+ * Verify Git is installed and repository is initialized, and return its root
+ */
+async function verifyGitSetup(
+  path: string,
+  logger: Logger,
+): Promise<Result<string>> {
   // Check if Git is installed
   const gitInstalled = await isGitInstalled();
   if (!gitInstalled) {
@@ -289,10 +991,92 @@ async function verifyGitSetup(
     if (!initResult.ok) {
       return Err(initResult.error);
     }
-  } else {
-    logger.success("Git repository detected");
   }
 
+  // The package may live in a subdirectory (or worktree) of the repository
+  const rootResult = await getRepoRoot(path);
+  if (!rootResult.ok) {
+    return Err(rootResult.error);
+  }
+  const repoRoot = rootResult.value;
+
+  logger.success(`Git repository detected: ${repoRoot}`);
+  const packageDir = relative(repoRoot, await Deno.realPath(path));
+  if (packageDir) {
+    logger.info(`Publishing from ${packageDir}`);
+  }
+
+  return Ok(repoRoot);
+}
+
+/**
+ * Fetch and compare the branch to push with its upstream
+ *
+ * The branch is the selected one, or the one pushed along with the tag. A
+ * branch that is behind or has diverged blocks the publish, unless it is
+ * checked out and the user chooses to pull (rebase or merge) it. The commits
+ * about to be pushed are listed.
+ */
+async function verifyUpstreamSync(
+  target: string,
+  path: string,
+  logger: Logger,
+): Promise<Result<void>> {
+  const statusResult = await getGitStatus(path);
+  const currentBranch = statusResult.ok ? statusResult.value.currentBranch : null;
+
+  let upstreamResult = await getUpstreamStatus(target, path, { fetch: true });
+  if (!upstreamResult.ok) {
+    logger.warn(`${upstreamResult.error.message}, comparing with the last fetched state`);
+    upstreamResult = await getUpstreamStatus(target, path);
+    if (!upstreamResult.ok) return Err(upstreamResult.error);
+  }
+
+  let status = upstreamResult.value;
+  if (!status.upstream) {
+    logger.info(`${target} has no upstream branch, skipping the upstream check`);
+    return Ok(undefined);
+  }
+  const upstream = status.upstream;
+
+  if (status.behind > 0) {
+    const description = status.diverged
+      ? `${target} has diverged from ${upstream} (${status.ahead} ahead, ${status.behind} behind)`
+      : `${target} is ${status.behind} commit(s) behind ${upstream}`;
+    const code = status.diverged ? "BRANCH_DIVERGED" : "BRANCH_BEHIND";
+    logger.warn(description);
+
+    // Only the checked out branch can be pulled here
+    if (target !== currentBranch || !Deno.stdin.isTerminal()) {
+      return Err(new PublishError(`${description}. Update it before publishing.`, code));
+    }
+
+    const choiceResult = await promptSyncUpstream(upstream, status.diverged);
+    if (!choiceResult.ok) return Err(choiceResult.error);
+    if (choiceResult.value === "cancel") {
+      return Err(new PublishError(`${description}. Update it before publishing.`, code));
+    }
+
+    const pullResult = await pull({ rebase: choiceResult.value === "rebase" }, path, logger);
+    if (!pullResult.ok) return Err(pullResult.error);
+
+    const updatedResult = await getUpstreamStatus(target, path);
+    if (!updatedResult.ok) return Err(updatedResult.error);
+    status = updatedResult.value;
+  }
+
+  if (status.ahead === 0) {
+    logger.success(`${target} is up to date with ${upstream}`);
+    return Ok(undefined);
+  }
+
+  const commitsResult = await getCommits(upstream, target, path);
+  if (!commitsResult.ok) return Err(commitsResult.error);
+
+  logger.info(`${status.ahead} commit(s) to push to ${upstream}:`);
+  commitsResult.value.forEach((commit) => {
+    logger.info(`  ${commit.hash.slice(0, 7)} ${commit.subject}`);
+  });
   return Ok(undefined);
 }
 
@@ -301,31 +1085,42 @@ async function verifyGitSetup(
  */
 async function determineGitRef(
   options: PublishOptions,
+  config: PublishConfig,
   path: string,
   logger: Logger,
-): Promise<Result<string>> {
+): Promise<Result<GitRefSelection>> {
   // If branch is specified, use it
   if (options.branch) {
-    return Ok(options.branch);
+    return await checkReleaseBranchPolicy(
+      options.branch,
+      true,
+      config,
+      options,
+      path,
+      logger,
+    );
   }
 
   // If tag is specified, use it
   if (options.tag) {
-    return Ok(options.tag);
+    return await checkReleaseBranchPolicy(options.tag, false, config, options, path, logger);
   }
 
-  // If createTag is specified, create and return it
+  // If createTag is specified, plan it (it's created once the publish is confirmed)
   if (options.createTag) {
-    const createResult = await createTag(
-      options.createTag,
-      undefined,
-      path,
-      logger,
-    );
-    if (!createResult.ok) {
-      return Err(createResult.error);
+    let tagName = options.createTag;
+
+    // "auto" infers the tag from Conventional Commits since the last tag
+    if (tagName === "auto") {
+      const inferenceResult = await inferNextVersion(path);
+      if (!inferenceResult.ok) {
+        return Err(inferenceResult.error);
+      }
+      displayVersionInference(inferenceResult.value, logger);
+      tagName = inferenceResult.value.tagName;
     }
-    return Ok(options.createTag);
+
+    return await planReleaseTag(tagName, undefined, config, options, path, logger);
   }
 
   // Interactive mode: ask user
@@ -355,7 +1150,14 @@ async function determineGitRef(
       return Err(branchResult.error);
     }
 
-    return Ok(branchResult.value);
+    return await checkReleaseBranchPolicy(
+      branchResult.value,
+      true,
+      config,
+      options,
+      path,
+      logger,
+    );
   } else if (type === "tag") {
     const tagsResult = await getTags(path);
     if (!tagsResult.ok) {
@@ -367,20 +1169,149 @@ async function determineGitRef(
       return Err(tagResult.error);
     }
 
-    return Ok(tagResult.value);
+    return await checkReleaseBranchPolicy(
+      tagResult.value,
+      false,
+      config,
+      options,
+      path,
+      logger,
+    );
   } else {
-    // create-tag
-    const newTagResult = await promptCreateTag();
+    // create-tag: suggest the version inferred from Conventional Commits
+    let suggestedTag: string | undefined;
+    const inferenceResult = await inferNextVersion(path);
+    if (inferenceResult.ok) {
+      displayVersionInference(inferenceResult.value, logger);
+      suggestedTag = inferenceResult.value.tagName;
+    } else {
+      logger.debug(`Could not infer next version: ${inferenceResult.error.message}`);
+    }
+
+    const newTagResult = await promptCreateTag(suggestedTag);
     if (!newTagResult.ok) {
       return Err(newTagResult.error);
     }
 
     const { name, message } = newTagResult.value;
-    const createResult = await createTag(name, message, path, logger);
-    if (!createResult.ok) {
-      return Err(createResult.error);
+    return await planReleaseTag(name, message, config, options, path, logger);
+  }
+}
+
+/**
+ * Check that a branch, or the commit of a tag, is on a release branch
+ *
+ * Outside of them, publishing takes --override-branch-policy, whose reason
+ * is returned along with who gave it.
+ */
+async function checkReleaseBranchPolicy(
+  ref: string,
+  isBranch: boolean,
+  config: PublishConfig,
+  options: PublishOptions,
+  path: string,
+  logger: Logger,
+): Promise<Result<GitRefSelection>> {
+  const releaseBranches = config.releaseBranches ?? [];
+  if (releaseBranches.length === 0) return Ok({ ref });
+
+  const patterns = releaseBranches.map((pattern) => globToRegExp(pattern));
+  const isReleaseBranch = (branch: string) => patterns.some((p) => p.test(branch));
+
+  let branches = [ref];
+  if (!isBranch) {
+    const branchesResult = await getBranchesContaining(ref, path);
+    if (!branchesResult.ok) return Err(branchesResult.error);
+    branches = branchesResult.value;
+  }
+
+  if (branches.some(isReleaseBranch)) return Ok({ ref });
+
+  const description = isBranch
+    ? `${ref} is not a release branch (${releaseBranches.join(", ")})`
+    : `${ref} is not on a release branch (${releaseBranches.join(", ")})`;
+
+  if (!options.overrideBranchPolicy) {
+    return Err(
+      new PublishError(
+        `${description}. Pass --override-branch-policy "<reason>" to publish anyway.`,
+        "BRANCH_NOT_ALLOWED",
+      ),
+    );
+  }
+
+  const identityResult = await getUserIdentity(path);
+  const user = identityResult.ok ? identityResult.value : "unknown user";
+  const policyOverride =
+    `Release branch policy overridden by ${user}: ${options.overrideBranchPolicy}`;
+
+  logger.warn(description);
+  logger.warn(policyOverride);
+  return Ok({ ref, policyOverride });
+}
+
+/**
+ * Plan a release tag on HEAD, checked against the existing tags and the release branches
+ */
+async function planReleaseTag(
+  tagName: string,
+  message: string | undefined,
+  config: PublishConfig,
+  options: PublishOptions,
+  path: string,
+  logger: Logger,
+): Promise<Result<GitRefSelection>> {
+  if (await isTag(tagName, path)) {
+    return Err(new PublishError(`Tag ${tagName} already exists`, "TAG_EXISTS"));
+  }
+
+  const policyResult = await checkReleaseBranchPolicy(
+    "HEAD",
+    false,
+    config,
+    options,
+    path,
+    logger,
+  );
+  if (!policyResult.ok) {
+    return Err(policyResult.error);
+  }
+
+  const { policyOverride } = policyResult.value;
+  return Ok({ ref: tagName, policyOverride, newTag: { message } });
+}
+
+/**
+ * Update the changelog (unless disabled) and create the planned release tag on top of it
+ *
+ * A release branch override is recorded in the (then annotated) tag message.
+ */
+async function createReleaseTag(
+  selection: GitRefSelection,
+  options: PublishOptions,
+  path: string,
+  logger: Logger,
+): Promise<Result<void>> {
+  const { ref: tagName, policyOverride } = selection;
+
+  if (options.changelog !== false) {
+    const changelogResult = await updateChangelog(
+      tagName,
+      { dryRun: options.dryRun },
+      path,
+      logger,
+    );
+    if (!changelogResult.ok) {
+      return Err(changelogResult.error);
     }
+  }
 
-    return Ok(name);
+  if (options.dryRun) {
+    logger.info(`Would create tag ${tagName}`);
+    return Ok(undefined);
   }
+
+  const message = selection.newTag?.message;
+  const tagMessage = policyOverride ? `${message ?? tagName}\n\n${policyOverride}` : message;
+  return await createTag(tagName, tagMessage, path, logger);
 }
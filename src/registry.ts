@@ -3,7 +3,38 @@
  */
 
 import { exists } from "@std/fs";
-import { join } from "@std/path";
+import { basename, join, resolve, toFileUrl } from "@std/path";
+import {
+  JsrConfig,
+  NpmBuildConfig,
+  NpmConfig,
+  PublishConfig,
+  RegistryAdapterConfig,
+} from "./config.ts";
+import { promptOtp } from "./interactive.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { verifyJsrAuth } from "./jsr_auth.ts";
+import { displayPublishDiagnostics, runPublishDryRun } from "./jsr_diagnostics.ts";
+import { autoFixJsrConfig, findJsrConfigFile, validateJsrConfig } from "./jsr_validator.ts";
+import {
+  getAuthTokenKey,
+  getNpmAuthEnv,
+  getNpmTargets,
+  getPublishConfigConflict,
+  NpmTarget,
+  readNpmrc,
+  resolveNpmRegistry,
+  validateNpmConfigUrls,
+} from "./npm_registry.ts";
+import { buildNpmPackage, validateNpmBuild } from "./npm_build.ts";
+import { autoFixNpmConfig, validateNpmConfig } from "./npm_validator.ts";
+import { getJsrPackContents, getNpmPackContents, PackContents } from "./pack.ts";
+import {
+  detectPackageManager,
+  getPublishCommand,
+  PackageManager,
+  PackageManagerInfo,
+} from "./package_manager.ts";
 import { Err, executeCommand, Logger, Ok, PublishError, Result } from "./utils.ts";
 
 export enum RegistryType {
@@ -11,13 +42,68 @@ export enum RegistryType {
   JSR = "jsr",
 }
 
+const REGISTRY_NAMES: Record<string, string> = {
+  [RegistryType.NPM]: "npm",
+  [RegistryType.JSR]: "JSR",
+};
+
+export const DEFAULT_NPM_REGISTRY_URL = "https://registry.npmjs.org";
+export const DEFAULT_JSR_API_URL = "https://api.jsr.io";
+
+export interface RegistryUrls {
+  npmRegistryUrl?: string;
+  npmToken?: string; // Sent as a Bearer token (private registries)
+  jsrApiUrl?: string;
+}
+
 export interface PackageInfo {
   name: string;
   version: string;
-  registry: RegistryType;
+  registry: string; // Id of the adapter that detected the package (see RegistryType)
+  path: string; // Package directory (differs from the project root for workspace members)
+  manifestPath: string;
   private?: boolean;
 }
 
+export interface PublishTargetOptions {
+  otp?: string; // One-time password for two-factor auth (updated after a prompt for reuse)
+  allowDirty?: boolean; // Let JSR publish with uncommitted changes
+}
+
+export interface NpmPublishOptions extends PublishTargetOptions {
+  registryUrl?: string;
+  token?: string;
+  packageManager?: PackageManagerInfo;
+}
+
+const MAX_OTP_ATTEMPTS = 3;
+
+/**
+ * Contract implemented by every publish target
+ *
+ * npm and JSR are built in; additional adapters are loaded from the
+ * `registries` field of publishjs.json.
+ */
+export interface RegistryAdapter {
+  id: string; // Stored in PackageInfo.registry
+  name: string; // Display name
+  detect(path: string): Promise<Result<PackageInfo>>;
+  validate?(
+    pkg: PackageInfo,
+    logger: Logger,
+    options?: PublishTargetOptions,
+  ): Promise<Result<void>>;
+  checkAuth?(logger: Logger): Promise<Result<void>>;
+  isPublished(pkg: PackageInfo): Promise<Result<boolean>>;
+  publish(
+    pkg: PackageInfo,
+    logger?: Logger,
+    options?: PublishTargetOptions,
+  ): Promise<Result<void>>;
+  resolveUrl?(pkg: PackageInfo): Promise<string>; // Shown in the confirmation summary
+  pack?(pkg: PackageInfo): Promise<Result<PackContents>>; // Files that would be uploaded
+}
+
 /**
  * Check if package.json exists and is valid for npm
  */
@@ -58,6 +144,8 @@ export async function detectNpmPackage(
       name: pkg.name,
       version: pkg.version,
       registry: RegistryType.NPM,
+      path,
+      manifestPath: packageJsonPath,
       private: pkg.private === true,
     });
   } catch (error) {
@@ -72,32 +160,70 @@ export async function detectNpmPackage(
 }
 
 /**
- * Check if deno.json or jsr.json exists and is valid for JSR
+ * Detect a Deno package that the npm build stage turns into an npm package
  */
-export async function detectJsrPackage(
+export async function detectNpmBuildPackage(
   path: string = Deno.cwd(),
+  build: NpmBuildConfig = {},
 ): Promise<Result<PackageInfo>> {
-  // Check deno.json first
-  const denoJsonPath = join(path, "deno.json");
-  const jsrJsonPath = join(path, "jsr.json");
+  const configPath = await findJsrConfigFile(path);
 
-  let configPath: string | null = null;
+  if (!configPath) {
+    return Err(
+      new PublishError("deno.json, deno.jsonc or jsr.json not found", "NPM_NOT_FOUND"),
+    );
+  }
 
-  if (await exists(denoJsonPath)) {
-    configPath = denoJsonPath;
-  } else if (await exists(jsrJsonPath)) {
-    configPath = jsrJsonPath;
+  try {
+    const content = await Deno.readTextFile(configPath);
+    const config = parseJsonc(content) as { name?: string; version?: string };
+    const name = build.name ?? config.name;
+
+    if (!name || !config.version) {
+      return Err(
+        new PublishError(
+          `${configPath} needs 'name' and 'version' fields for the npm build`,
+          "NPM_INVALID_CONFIG",
+        ),
+      );
+    }
+
+    return Ok({
+      name,
+      version: config.version,
+      registry: RegistryType.NPM,
+      path,
+      manifestPath: configPath,
+    });
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Failed to parse ${configPath}`,
+        "NPM_PARSE_ERROR",
+        error,
+      ),
+    );
   }
+}
+
+/**
+ * Check if jsr.json, deno.json or deno.jsonc exists and is valid for JSR
+ */
+export async function detectJsrPackage(
+  path: string = Deno.cwd(),
+): Promise<Result<PackageInfo>> {
+  // jsr.json takes precedence over deno.json/deno.jsonc
+  const configPath = await findJsrConfigFile(path);
 
   if (!configPath) {
     return Err(
-      new PublishError("deno.json or jsr.json not found", "JSR_NOT_FOUND"),
+      new PublishError("deno.json, deno.jsonc or jsr.json not found", "JSR_NOT_FOUND"),
     );
   }
 
   try {
     const content = await Deno.readTextFile(configPath);
-    const config = JSON.parse(content);
+    const config = parseJsonc(content) as { name?: string; version?: string };
 
     if (!config.name) {
       return Err(
@@ -121,6 +247,8 @@ export async function detectJsrPackage(
       name: config.name,
       version: config.version,
       registry: RegistryType.JSR,
+      path,
+      manifestPath: configPath,
     });
   } catch (error) {
     return Err(
@@ -138,55 +266,104 @@ export async function detectJsrPackage(
  */
 export async function detectRegistries(
   path: string = Deno.cwd(),
+  adapters: RegistryAdapter[] = createBuiltinAdapters(),
 ): Promise<PackageInfo[]> {
   const registries: PackageInfo[] = [];
 
-  // Check npm
-  const npmResult = await detectNpmPackage(path);
-  if (npmResult.ok && !npmResult.value.private) {
-    registries.push(npmResult.value);
-  }
-
-  // Check JSR
-  const jsrResult = await detectJsrPackage(path);
-  if (jsrResult.ok) {
-    registries.push(jsrResult.value);
+  for (const adapter of adapters) {
+    const result = await adapter.detect(path);
+    if (result.ok && !result.value.private) {
+      registries.push(result.value);
+    }
   }
 
   return registries;
 }
 
+/**
+ * Check if an adapter id belongs to an npm-compatible registry (npm or npm:<target>)
+ */
+export function isNpmRegistry(registry: string): boolean {
+  return registry === RegistryType.NPM || registry.startsWith(`${RegistryType.NPM}:`);
+}
+
+/**
+ * Check if a publish failed because npm needs a one-time password
+ */
+export function isOtpError(message: string): boolean {
+  return /EOTP|one-time pass/i.test(message);
+}
+
 /**
  * Publish to npm registry
+ *
+ * If the account requires two-factor auth and no OTP was given (`--otp` or
+ * NPM_OTP), the code is prompted for and stored in `options.otp`.
  */
 export async function publishToNpm(
   path: string = Deno.cwd(),
   logger?: Logger,
+  options: NpmPublishOptions = {},
 ): Promise<Result<void>> {
-  logger?.info("Publishing to npm...");
+  const packageManager = options.packageManager ??
+    { manager: PackageManager.NPM, source: "default" };
+  const publishCommand = getPublishCommand(packageManager, options.registryUrl, options.token);
 
-  // Check if npm is available
-  const npmCheck = await executeCommand("npm", ["--version"]);
-  if (!npmCheck.ok) {
+  logger?.info(
+    `Publishing to ${options.registryUrl ?? "npm"} with ${publishCommand.command}...`,
+  );
+
+  // Check if the package manager is available
+  const toolCheck = await executeCommand(publishCommand.command, ["--version"]);
+  if (!toolCheck.ok) {
     return Err(
       new PublishError(
-        "npm is not installed or not available in PATH",
+        `${publishCommand.command} is not installed or not available in PATH`,
         "NPM_NOT_AVAILABLE",
       ),
     );
   }
 
-  // Run npm publish
-  const result = await executeCommand("npm", ["publish"], { cwd: path });
+  let otp = options.otp ?? Deno.env.get("NPM_OTP");
 
-  if (!result.ok) {
-    return Err(
-      new PublishError(
-        "Failed to publish to npm",
-        "NPM_PUBLISH_FAILED",
-        result.error,
-      ),
-    );
+  for (let attempt = 1;; attempt++) {
+    // Run the package manager's publish command (the OTP is never logged)
+    const args = otp ? [...publishCommand.args, "--otp", otp] : publishCommand.args;
+    const result = await executeCommand(publishCommand.command, args, {
+      cwd: path,
+      env: publishCommand.env,
+    });
+
+    if (result.ok) {
+      options.otp = otp;
+      break;
+    }
+
+    if (!isOtpError(result.error.message)) {
+      return Err(
+        new PublishError(
+          "Failed to publish to npm",
+          "NPM_PUBLISH_FAILED",
+          result.error,
+        ),
+      );
+    }
+
+    if (!Deno.stdin.isTerminal() || attempt > MAX_OTP_ATTEMPTS) {
+      return Err(
+        new PublishError(
+          otp
+            ? "npm rejected the one-time password"
+            : "npm requires a one-time password. Pass --otp or set NPM_OTP.",
+          "NPM_OTP_REQUIRED",
+        ),
+      );
+    }
+
+    logger?.warn(otp ? "One-time password was rejected" : "npm requires a one-time password");
+    const otpResult = await promptOtp();
+    if (!otpResult.ok) return Err(otpResult.error);
+    otp = otpResult.value;
   }
 
   logger?.success("Successfully published to npm");
@@ -199,13 +376,14 @@ export async function publishToNpm(
 export async function publishToJsr(
   path: string = Deno.cwd(),
   logger?: Logger,
+  options: PublishTargetOptions = {},
 ): Promise<Result<void>> {
   logger?.info("Publishing to JSR...");
 
-  // Run deno publish with --allow-dirty flag in case of uncommitted changes
+  // deno refuses uncommitted changes unless --allow-dirty was requested
   const result = await executeCommand(
     "deno",
-    ["publish", "--allow-dirty"],
+    options.allowDirty ? ["publish", "--allow-dirty"] : ["publish"],
     { cwd: path },
   );
 
@@ -270,59 +448,470 @@ export async function publishToJsr(
 }
 
 /**
- * Publish to a specific registry
+ * Get registry display name
  */
-export async function publishToRegistry(
-  registry: RegistryType,
-  path: string = Deno.cwd(),
-  logger?: Logger,
-): Promise<Result<void>> {
-  switch (registry) {
-    case RegistryType.NPM:
-      return await publishToNpm(path, logger);
-    case RegistryType.JSR:
-      return await publishToJsr(path, logger);
-    default:
+export function getRegistryName(registry: string): string {
+  return REGISTRY_NAMES[registry] ?? registry;
+}
+
+/**
+ * Fetch a registry URL, returning null for 404 responses
+ */
+async function fetchRegistry(
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<Result<Response | null>> {
+  try {
+    const response = await fetch(url, { headers });
+
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return Ok(null);
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
       return Err(
         new PublishError(
-          `Unknown registry type: ${registry}`,
-          "UNKNOWN_REGISTRY",
+          `Registry responded with ${response.status} for ${url}`,
+          "VERSION_CHECK_FAILED",
         ),
       );
+    }
+
+    return Ok(response);
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Failed to reach registry at ${url}`,
+        "VERSION_CHECK_FAILED",
+        error,
+      ),
+    );
   }
 }
 
 /**
- * Get registry display name
+ * Check if a package version already exists on its registry
  */
-export function getRegistryName(registry: RegistryType): string {
-  switch (registry) {
-    case RegistryType.NPM:
-      return "npm";
-    case RegistryType.JSR:
-      return "JSR";
-    default:
-      return "unknown";
+export async function isVersionPublished(
+  info: PackageInfo,
+  urls: RegistryUrls = {},
+): Promise<Result<boolean>> {
+  if (isNpmRegistry(info.registry)) {
+    const baseUrl = (urls.npmRegistryUrl ?? DEFAULT_NPM_REGISTRY_URL).replace(/\/+$/, "");
+
+    const headers: Record<string, string> = { "Accept": "application/vnd.npm.install-v1+json" };
+    if (urls.npmToken) {
+      headers["Authorization"] = `Bearer ${urls.npmToken}`;
+    }
+
+    // Scoped names keep the @ but encode the slash: @scope%2Fname
+    const result = await fetchRegistry(`${baseUrl}/${info.name.replace("/", "%2F")}`, headers);
+    if (!result.ok) return Err(result.error);
+    if (!result.value) return Ok(false);
+
+    // A proxy may answer with an HTML error page instead of the metadata
+    try {
+      const metadata = await result.value.json();
+      return Ok(metadata.versions?.[info.version] !== undefined);
+    } catch (error) {
+      return Err(
+        new PublishError(
+          `Registry returned invalid metadata for ${info.name}`,
+          "VERSION_CHECK_FAILED",
+          error,
+        ),
+      );
+    }
+  }
+
+  const match = info.name.match(/^@([^/]+)\/(.+)$/);
+  if (!match) {
+    return Err(
+      new PublishError(
+        `Invalid JSR package name: ${info.name}`,
+        "JSR_INVALID_NAME",
+      ),
+    );
   }
+
+  const baseUrl = (urls.jsrApiUrl ?? DEFAULT_JSR_API_URL).replace(/\/+$/, "");
+  const result = await fetchRegistry(
+    `${baseUrl}/scopes/${match[1]}/packages/${match[2]}/versions/${info.version}`,
+  );
+  if (!result.ok) return Err(result.error);
+  if (!result.value) return Ok(false);
+
+  await result.value.body?.cancel();
+  return Ok(true);
 }
 
 /**
- * Validate package configuration before publishing
+ * Make sure a package version is not already published before publishing
  */
 export async function validatePackage(
-  registry: RegistryType,
-  path: string = Deno.cwd(),
+  adapter: RegistryAdapter,
+  pkg: PackageInfo,
 ): Promise<Result<void>> {
-  const detectResult = registry === RegistryType.NPM
-    ? await detectNpmPackage(path)
-    : await detectJsrPackage(path);
-
-  if (!detectResult.ok) {
-    return Err(detectResult.error);
+  const publishedResult = await adapter.isPublished(pkg);
+  if (!publishedResult.ok) {
+    return Err(publishedResult.error);
   }
 
-  // Additional validations can be added here
-  // For example: check if version already exists on registry
+  if (publishedResult.value) {
+    return Err(
+      new PublishError(
+        `${pkg.name}@${pkg.version} is already published to ${adapter.name}`,
+        "VERSION_EXISTS",
+      ),
+    );
+  }
 
   return Ok(undefined);
 }
+
+/**
+ * Get the auth token for an npm registry from the target's env var or .npmrc
+ */
+async function getNpmToken(
+  registryUrl: string,
+  path: string,
+  target: NpmTarget,
+): Promise<string | undefined> {
+  if (target.tokenEnv) {
+    return Deno.env.get(target.tokenEnv);
+  }
+
+  const npmrc = await readNpmrc(path);
+  return npmrc[getAuthTokenKey(registryUrl)] || undefined;
+}
+
+/**
+ * Create an adapter for an npm-compatible registry
+ *
+ * The default target keeps the `npm` id; configured targets use `npm:<name>`.
+ */
+export function createNpmAdapter(
+  config: NpmConfig = {},
+  target: NpmTarget = { name: "npm" },
+): RegistryAdapter {
+  // The build output when the package is built from its Deno config
+  const getPublishDir = (pkg: PackageInfo, logger?: Logger): Promise<Result<string>> =>
+    config.build ? buildNpmPackage(pkg, config.build, logger) : Promise.resolve(Ok(pkg.path));
+
+  const isDefault = !target.registryUrl && !target.tokenEnv && target.name === "npm";
+  const id = isDefault ? RegistryType.NPM : `${RegistryType.NPM}:${target.name}`;
+  const name = isDefault ? getRegistryName(RegistryType.NPM) : `npm (${target.name})`;
+
+  return {
+    id,
+    name,
+    detect: async (path) => {
+      const result = config.build
+        ? await detectNpmBuildPackage(path, config.build)
+        : await detectNpmPackage(path);
+      return result.ok ? Ok({ ...result.value, registry: id }) : result;
+    },
+    validate: async (pkg, logger) => {
+      const conflict = await getPublishConfigConflict(pkg, target, config.build);
+      if (conflict) {
+        return Err(
+          new PublishError(
+            `publishConfig.registry of ${pkg.name} (${conflict}) overrides the ${target.name} target. ` +
+              `Remove it from ${
+                config.build ? "npm.build.package" : "package.json"
+              } to publish to several registries.`,
+            "NPM_REGISTRY_CONFLICT",
+          ),
+        );
+      }
+
+      // package.json is generated by the build, check what it's generated from
+      if (config.build) {
+        const buildResult = await validateNpmBuild(pkg);
+        if (!buildResult.ok) return Err(buildResult.error);
+        if (buildResult.value.length > 0) {
+          return Err(
+            new PublishError(
+              `npm build of ${pkg.name} is invalid: ${buildResult.value.join("; ")}`,
+              "NPM_CONFIG_INVALID",
+            ),
+          );
+        }
+
+        logger.success(`npm package of ${pkg.name} is built from ${basename(pkg.manifestPath)}`);
+        return Ok(undefined);
+      }
+
+      const validationResult = await validateNpmConfig(pkg.path);
+      if (!validationResult.ok) return Err(validationResult.error);
+
+      const validation = validationResult.value;
+      if (validation.isValid) {
+        logger.success(`npm configuration of ${pkg.name} is valid`);
+        validation.suggestions.forEach((suggestion) => logger.debug(suggestion));
+        return Ok(undefined);
+      }
+
+      logger.warn(`npm configuration of ${pkg.name} has issues`);
+      const fixResult = await autoFixNpmConfig(validation, pkg.path, logger);
+      if (!fixResult.ok) return Err(fixResult.error);
+
+      // Some fixes may have been declined
+      const revalidationResult = await validateNpmConfig(pkg.path);
+      if (!revalidationResult.ok) return Err(revalidationResult.error);
+      if (!revalidationResult.value.isValid) {
+        return Err(
+          new PublishError(
+            `npm configuration of ${pkg.name} is still invalid: ` +
+              revalidationResult.value.issues.join("; "),
+            "NPM_CONFIG_INVALID",
+          ),
+        );
+      }
+
+      logger.success("npm configuration fixed");
+      return Ok(undefined);
+    },
+    checkAuth: async (logger) => {
+      if (target.tokenEnv && !Deno.env.get(target.tokenEnv)) {
+        logger.info(`Set the ${target.tokenEnv} environment variable to publish to ${name}`);
+        return Err(
+          new PublishError(`${target.tokenEnv} is not set`, "NPM_AUTH_MISSING"),
+        );
+      }
+
+      const args = ["whoami"];
+      let env: Record<string, string> = {};
+      const registryUrl = target.registryUrl ?? config.registryUrl;
+      if (registryUrl) {
+        args.push("--registry", registryUrl);
+        env = getNpmAuthEnv(registryUrl, target.tokenEnv && Deno.env.get(target.tokenEnv));
+      }
+
+      logger.debug(`Checking ${name} authentication...`);
+      const result = await executeCommand("npm", args, { env });
+      if (!result.ok) {
+        logger.info("Run 'npm login' or set an auth token in .npmrc");
+        return Err(
+          new PublishError(`Not logged in to ${name}`, "NPM_AUTH_MISSING", result.error),
+        );
+      }
+      logger.debug(`Logged in to ${name} as ${result.value}`);
+      return Ok(undefined);
+    },
+    isPublished: async (pkg) => {
+      const registryUrl = await resolveNpmRegistry(pkg, config, target);
+      return isVersionPublished(pkg, {
+        npmRegistryUrl: registryUrl,
+        npmToken: await getNpmToken(registryUrl, pkg.path, target),
+      });
+    },
+    publish: async (pkg, logger, options = {}) => {
+      const packageManagerResult = await detectPackageManager(pkg.path, config.packageManager);
+      if (!packageManagerResult.ok) return Err(packageManagerResult.error);
+
+      const publishDir = await getPublishDir(pkg, logger);
+      if (!publishDir.ok) return Err(publishDir.error);
+
+      const registryUrl = await resolveNpmRegistry(pkg, config, target);
+      const npmOptions: NpmPublishOptions = {
+        registryUrl,
+        token: await getNpmToken(registryUrl, pkg.path, target),
+        packageManager: packageManagerResult.value,
+        otp: options.otp,
+      };
+
+      const result = await publishToNpm(publishDir.value, logger, npmOptions);
+
+      // Reuse a prompted code for the remaining packages
+      options.otp = npmOptions.otp;
+      return result;
+    },
+    resolveUrl: (pkg) => resolveNpmRegistry(pkg, config, target),
+    pack: async (pkg) => {
+      const publishDir = await getPublishDir(pkg);
+      return publishDir.ok ? getNpmPackContents(publishDir.value) : Err(publishDir.error);
+    },
+  };
+}
+
+/**
+ * Create the JSR adapter
+ */
+export function createJsrAdapter(config: JsrConfig = {}): RegistryAdapter {
+  return {
+    id: RegistryType.JSR,
+    name: getRegistryName(RegistryType.JSR),
+    detect: (path) => detectJsrPackage(path),
+    validate: async (pkg, logger) => {
+      const validationResult = await validateJsrConfig(pkg.path, pkg.manifestPath);
+      if (!validationResult.ok) return Err(validationResult.error);
+
+      const { excludedFiles } = validationResult.value;
+      if (excludedFiles.length > 0) {
+        logger.info(
+          `${excludedFiles.length} files excluded from ${pkg.name} by its publish settings`,
+        );
+        excludedFiles.forEach((file) => logger.debug(`  excluded: ${file}`));
+      }
+      validationResult.value.undocumentedModules.forEach((file) => {
+        logger.warn(`${file} has no module doc comment`);
+      });
+
+      if (validationResult.value.isValid) {
+        logger.success(`JSR configuration of ${pkg.name} is valid`);
+      } else {
+        logger.warn(`JSR configuration of ${pkg.name} has issues`);
+        const fixResult = await autoFixJsrConfig(validationResult.value, pkg.path, logger);
+        if (!fixResult.ok) return Err(fixResult.error);
+
+        logger.success("JSR configuration fixed");
+      }
+
+      // Let deno check everything it would reject on upload. --allow-dirty: the fixes above
+      // are uncommitted yet, the real publish still checks the working tree
+      logger.info(`Running deno publish --dry-run for ${pkg.name}...`);
+      const dryRunResult = await runPublishDryRun(pkg.path, true);
+      if (!dryRunResult.ok) {
+        const { error } = dryRunResult;
+        if (error instanceof PublishError && Array.isArray(error.details)) {
+          displayPublishDiagnostics(error.details, logger);
+        }
+        return Err(dryRunResult.error);
+      }
+
+      displayPublishDiagnostics(dryRunResult.value, logger);
+      logger.success(`deno publish --dry-run passed for ${pkg.name}`);
+      return Ok(undefined);
+    },
+    checkAuth: async (logger) => {
+      const authResult = await verifyJsrAuth(logger);
+      return authResult.ok ? Ok(undefined) : Err(authResult.error);
+    },
+    isPublished: (pkg) => isVersionPublished(pkg, { jsrApiUrl: config.apiUrl }),
+    publish: (pkg, logger, options) => publishToJsr(pkg.path, logger, options),
+    pack: (pkg) => getJsrPackContents(pkg.path),
+  };
+}
+
+/**
+ * Create the built-in adapters: one per npm target, plus JSR
+ */
+export function createBuiltinAdapters(config: PublishConfig = {}): RegistryAdapter[] {
+  const npmAdapters = getNpmTargets(config.npm).map((target) =>
+    createNpmAdapter(config.npm, target)
+  );
+
+  return [...npmAdapters, createJsrAdapter(config.jsr)];
+}
+
+/**
+ * Check that a value loaded from an adapter module implements the adapter contract
+ */
+function isRegistryAdapter(value: unknown): value is RegistryAdapter {
+  const adapter = value as RegistryAdapter;
+  return typeof adapter === "object" && adapter !== null &&
+    typeof adapter.id === "string" && typeof adapter.name === "string" &&
+    typeof adapter.detect === "function" &&
+    typeof adapter.isPublished === "function" &&
+    typeof adapter.publish === "function";
+}
+
+/**
+ * Import a custom adapter module
+ *
+ * The module's default export is either an adapter or a function that
+ * receives the configured options and returns one.
+ */
+async function importAdapter(
+  adapterConfig: RegistryAdapterConfig,
+  path: string,
+): Promise<Result<RegistryAdapter>> {
+  const modulePath = resolve(path, adapterConfig.module);
+
+  let exported: unknown;
+  try {
+    const mod = await import(toFileUrl(modulePath).href);
+    exported = mod.default;
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Failed to load registry adapter from ${adapterConfig.module}`,
+        "ADAPTER_LOAD_FAILED",
+        error,
+      ),
+    );
+  }
+
+  let adapter: unknown;
+  try {
+    adapter = typeof exported === "function"
+      ? await exported(adapterConfig.options ?? {})
+      : exported;
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Registry adapter factory in ${adapterConfig.module} failed`,
+        "ADAPTER_LOAD_FAILED",
+        error,
+      ),
+    );
+  }
+
+  if (!isRegistryAdapter(adapter)) {
+    return Err(
+      new PublishError(
+        `${adapterConfig.module} does not export a registry adapter (id, name, detect, isPublished, publish)`,
+        "ADAPTER_INVALID",
+      ),
+    );
+  }
+
+  return Ok(adapter);
+}
+
+/**
+ * Load the built-in adapters plus the custom ones configured in publishjs.json
+ */
+export async function loadRegistryAdapters(
+  config: PublishConfig = {},
+  path: string = Deno.cwd(),
+  logger?: Logger,
+): Promise<Result<RegistryAdapter[]>> {
+  const urlsResult = validateNpmConfigUrls(config.npm);
+  if (!urlsResult.ok) return Err(urlsResult.error);
+
+  const adapters = createBuiltinAdapters(config);
+
+  for (const adapterConfig of config.registries ?? []) {
+    const adapterResult = await importAdapter(adapterConfig, path);
+    if (!adapterResult.ok) return Err(adapterResult.error);
+
+    const adapter = adapterResult.value;
+    if (adapters.some((a) => a.id === adapter.id)) {
+      return Err(
+        new PublishError(
+          `Registry adapter id "${adapter.id}" is already in use`,
+          "ADAPTER_CONFLICT",
+        ),
+      );
+    }
+
+    logger?.debug(`Loaded registry adapter: ${adapter.name} (${adapterConfig.module})`);
+    adapters.push(adapter);
+  }
+
+  return Ok(adapters);
+}
+
+/**
+ * Find the adapter that handles a package
+ */
+export function getAdapter(
+  adapters: RegistryAdapter[],
+  registry: string,
+): RegistryAdapter | undefined {
+  return adapters.find((adapter) => adapter.id === registry);
+}
@@ -0,0 +1,225 @@
+/**
+ * Hosting platform release module (GitHub/GitLab releases)
+ */
+
+import { getTokenFromEnv } from "./auth.ts";
+import { generateChangelogEntry } from "./changelog.ts";
+import { RemoteInfo, RemotePlatform } from "./remote.ts";
+import { parseSemver } from "./semver.ts";
+import { Err, Logger, Ok, PublishError, Result } from "./utils.ts";
+
+export interface ReleaseOptions {
+  tag: string;
+  name?: string;
+  notes: string;
+  draft?: boolean;
+  prerelease?: boolean;
+  apiUrl?: string;
+  token?: string;
+}
+
+/**
+ * Get the default REST API base URL for a platform
+ */
+export function getDefaultApiUrl(platform: RemotePlatform): string | undefined {
+  switch (platform) {
+    case RemotePlatform.GITHUB:
+      return "https://api.github.com";
+    case RemotePlatform.GITLAB:
+      return "https://gitlab.com/api/v4";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check if releases can be created on a platform
+ */
+export function supportsReleases(platform: RemotePlatform): boolean {
+  return getDefaultApiUrl(platform) !== undefined;
+}
+
+/**
+ * Check if a tag names a prerelease version (e.g., v2.0.0-rc.1)
+ */
+export function isPrereleaseTag(tag: string): boolean {
+  const parsed = parseSemver(tag);
+  return parsed !== null && parsed.prerelease.length > 0;
+}
+
+/**
+ * Get release notes from a file, or generate them from the commits since the previous tag
+ */
+export async function getReleaseNotes(
+  tag: string,
+  notesFile?: string,
+  path: string = Deno.cwd(),
+): Promise<Result<string>> {
+  if (notesFile) {
+    try {
+      return Ok(await Deno.readTextFile(notesFile));
+    } catch (error) {
+      return Err(
+        new PublishError(
+          `Failed to read release notes from ${notesFile}`,
+          "RELEASE_NOTES_READ_ERROR",
+          error,
+        ),
+      );
+    }
+  }
+
+  const entryResult = await generateChangelogEntry(tag, { to: tag }, path);
+  if (!entryResult.ok) return Err(entryResult.error);
+
+  // The release title already names the version, so drop the changelog heading
+  return Ok(entryResult.value.markdown.replace(/^## .*\n+/, "").trim() + "\n");
+}
+
+/**
+ * Send a release creation request and return the parsed JSON response
+ */
+async function postRelease(
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+): Promise<Result<Record<string, unknown>>> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      return Err(
+        new PublishError(
+          `Release API responded with ${response.status}: ${text}`,
+          "RELEASE_FAILED",
+        ),
+      );
+    }
+
+    return Ok(text ? JSON.parse(text) : {});
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Failed to reach release API at ${url}`,
+        "RELEASE_FAILED",
+        error,
+      ),
+    );
+  }
+}
+
+/**
+ * Create a GitHub release
+ */
+async function createGitHubRelease(
+  remote: RemoteInfo,
+  options: ReleaseOptions,
+  apiUrl: string,
+  token: string,
+): Promise<Result<string>> {
+  const result = await postRelease(
+    `${apiUrl}/repos/${remote.owner}/${remote.repo}/releases`,
+    {
+      "Accept": "application/vnd.github+json",
+      "Authorization": `Bearer ${token}`,
+    },
+    {
+      tag_name: options.tag,
+      name: options.name ?? options.tag,
+      body: options.notes,
+      draft: options.draft ?? false,
+      prerelease: options.prerelease ?? false,
+    },
+  );
+
+  if (!result.ok) return Err(result.error);
+  return Ok(String(result.value.html_url ?? ""));
+}
+
+/**
+ * Create a GitLab release
+ */
+async function createGitLabRelease(
+  remote: RemoteInfo,
+  options: ReleaseOptions,
+  apiUrl: string,
+  token: string,
+  logger?: Logger,
+): Promise<Result<string>> {
+  if (options.draft || options.prerelease) {
+    logger?.warn("GitLab releases don't support draft or prerelease flags, ignoring them");
+  }
+
+  const projectId = encodeURIComponent(`${remote.owner}/${remote.repo}`);
+
+  const result = await postRelease(
+    `${apiUrl}/projects/${projectId}/releases`,
+    { "PRIVATE-TOKEN": token },
+    {
+      tag_name: options.tag,
+      name: options.name ?? options.tag,
+      description: options.notes,
+    },
+  );
+
+  if (!result.ok) return Err(result.error);
+
+  const links = result.value._links as Record<string, unknown> | undefined;
+  return Ok(String(links?.self ?? ""));
+}
+
+/**
+ * Create a release for a pushed tag on the remote's hosting platform
+ */
+export async function createRelease(
+  remote: RemoteInfo,
+  options: ReleaseOptions,
+  logger?: Logger,
+): Promise<Result<string>> {
+  const apiUrl = (options.apiUrl ?? getDefaultApiUrl(remote.platform))?.replace(/\/+$/, "");
+
+  if (!apiUrl) {
+    return Err(
+      new PublishError(
+        `Releases are not supported for ${remote.platform} remotes`,
+        "RELEASE_UNSUPPORTED_PLATFORM",
+      ),
+    );
+  }
+
+  if (!remote.owner || !remote.repo) {
+    return Err(
+      new PublishError(
+        `Unable to determine repository from remote URL: ${remote.url}`,
+        "INVALID_GIT_URL",
+      ),
+    );
+  }
+
+  const token = options.token ?? getTokenFromEnv(remote.platform);
+  if (!token) {
+    return Err(
+      new PublishError(
+        `No API token found for ${remote.platform}. Set GITHUB_TOKEN or GITLAB_TOKEN.`,
+        "RELEASE_TOKEN_MISSING",
+      ),
+    );
+  }
+
+  logger?.info(`Creating ${remote.platform} release for ${options.tag}...`);
+
+  const result = remote.platform === RemotePlatform.GITLAB
+    ? await createGitLabRelease(remote, options, apiUrl, token, logger)
+    : await createGitHubRelease(remote, options, apiUrl, token);
+
+  if (!result.ok) return Err(result.error);
+
+  logger?.success(`Release created${result.value ? `: ${result.value}` : ""}`);
+  return Ok(result.value);
+}
@@ -0,0 +1,180 @@
+/**
+ * Semantic versioning helpers for publishjs
+ */
+
+import { Err, Ok, PublishError, Result } from "./utils.ts";
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+export type ReleaseType = "major" | "minor" | "patch" | "prerelease";
+
+const RELEASE_TYPES: ReleaseType[] = ["major", "minor", "patch", "prerelease"];
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+/**
+ * Check if a string is a known release type
+ */
+export function isReleaseType(value: string): value is ReleaseType {
+  return (RELEASE_TYPES as string[]).includes(value);
+}
+
+/**
+ * Parse a version string (an optional leading "v" is ignored)
+ */
+export function parseSemver(version: string): SemVer | null {
+  const match = version.trim().match(SEMVER_PATTERN);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".").map((id) => /^\d+$/.test(id) ? Number(id) : id) : [],
+    build: match[5] ? match[5].split(".") : [],
+  };
+}
+
+/**
+ * Format a parsed version back into a string
+ */
+export function formatSemver(version: SemVer): string {
+  let result = `${version.major}.${version.minor}.${version.patch}`;
+
+  if (version.prerelease.length > 0) {
+    result += `-${version.prerelease.join(".")}`;
+  }
+
+  if (version.build.length > 0) {
+    result += `+${version.build.join(".")}`;
+  }
+
+  return result;
+}
+
+/**
+ * Compare two prerelease identifier lists by semver precedence
+ */
+function comparePrerelease(
+  a: (string | number)[],
+  b: (string | number)[],
+): number {
+  // A version without prerelease has higher precedence
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (i >= a.length) return -1;
+    if (i >= b.length) return 1;
+
+    const left = a[i];
+    const right = b[i];
+    if (left === right) continue;
+
+    if (typeof left === "number" && typeof right === "number") {
+      return left < right ? -1 : 1;
+    }
+
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (typeof left === "number") return -1;
+    if (typeof right === "number") return 1;
+
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two versions, returning -1, 0 or 1
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  for (const key of ["major", "minor", "patch"] as const) {
+    if (a[key] !== b[key]) {
+      return a[key] < b[key] ? -1 : 1;
+    }
+  }
+
+  return comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Compute the next version for a release type
+ */
+export function incrementSemver(
+  version: string,
+  release: ReleaseType,
+  preid?: string,
+): Result<string> {
+  const parsed = parseSemver(version);
+
+  if (!parsed) {
+    return Err(
+      new PublishError(
+        `Invalid version: ${version}. Must be semver`,
+        "INVALID_VERSION",
+      ),
+    );
+  }
+
+  const next: SemVer = { ...parsed, prerelease: [...parsed.prerelease], build: [] };
+  const isPrerelease = parsed.prerelease.length > 0;
+
+  switch (release) {
+    case "major":
+      // 2.0.0-rc.1 → 2.0.0
+      if (!isPrerelease || parsed.minor !== 0 || parsed.patch !== 0) {
+        next.major++;
+      }
+      next.minor = 0;
+      next.patch = 0;
+      next.prerelease = [];
+      break;
+
+    case "minor":
+      // 1.3.0-rc.1 → 1.3.0
+      if (!isPrerelease || parsed.patch !== 0) {
+        next.minor++;
+      }
+      next.patch = 0;
+      next.prerelease = [];
+      break;
+
+    case "patch":
+      // 1.2.4-rc.1 → 1.2.4
+      if (!isPrerelease) {
+        next.patch++;
+      }
+      next.prerelease = [];
+      break;
+
+    case "prerelease":
+      if (!isPrerelease) {
+        // 1.2.3 → 1.2.4-rc.0
+        next.patch++;
+        next.prerelease = preid ? [preid, 0] : [0];
+      } else if (preid && next.prerelease[0] !== preid) {
+        // 1.2.0-beta.3 → 1.2.0-rc.0
+        next.prerelease = [preid, 0];
+      } else {
+        // 1.2.0-rc.0 → 1.2.0-rc.1
+        const last = next.prerelease.length - 1;
+        if (typeof next.prerelease[last] === "number") {
+          next.prerelease[last] = (next.prerelease[last] as number) + 1;
+        } else {
+          next.prerelease.push(0);
+        }
+      }
+      break;
+  }
+
+  return Ok(formatSemver(next));
+}
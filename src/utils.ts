@@ -3,6 +3,7 @@
  */
 
 import { bold, green, red, yellow, blue, cyan } from "@std/fmt/colors";
+import { applyJsoncChanges, parseJsonc } from "./jsonc.ts";
 
 /**
  * Log levels for the CLI
@@ -75,7 +76,7 @@ export function Err<E = Error>(error: E): Result<never, E> {
 export async function executeCommand(
   command: string,
   args: string[],
-  options?: { cwd?: string; env?: Record<string, string> },
+  options?: { cwd?: string; env?: Record<string, string>; includeStderr?: boolean },
 ): Promise<Result<string>> {
   try {
     // Always inherit current environment and merge with provided env
@@ -99,16 +100,64 @@ export async function executeCommand(
 
     if (code !== 0) {
       return Err(
-        new Error(`Command failed with code ${code}: ${errorOutput || output}`),
+        new CommandError(
+          `Command failed with code ${code}: ${errorOutput || output}`,
+          code,
+          output,
+          errorOutput,
+        ),
       );
     }
 
+    // Some tools (e.g., deno publish) report their results on stderr
+    if (options?.includeStderr) {
+      return Ok([output, errorOutput].filter(Boolean).join("\n"));
+    }
+
     return Ok(output);
   } catch (error) {
     return Err(error as Error);
   }
 }
 
+/**
+ * Execute a shell command line (sh, or cmd on Windows) and return its output
+ */
+export function executeShellCommand(
+  command: string,
+  options?: { cwd?: string; env?: Record<string, string> },
+): Promise<Result<string>> {
+  const [shell, flag] = Deno.build.os === "windows" ? ["cmd", "/c"] : ["sh", "-c"];
+  return executeCommand(shell, [flag, command], { ...options, includeStderr: true });
+}
+
+/**
+ * Read a JSON or JSONC file, apply an update and write back only the changed keys
+ */
+export async function updateJsonFile(
+  filePath: string,
+  update: (data: Record<string, unknown>) => void,
+): Promise<Result<void>> {
+  try {
+    const content = await Deno.readTextFile(filePath);
+    const original = parseJsonc(content) as Record<string, unknown>;
+    const data = structuredClone(original);
+
+    update(data);
+
+    await Deno.writeTextFile(filePath, applyJsoncChanges(content, original, data));
+    return Ok(undefined);
+  } catch (error) {
+    return Err(
+      new PublishError(
+        `Failed to update ${filePath}`,
+        "MANIFEST_WRITE_ERROR",
+        error,
+      ),
+    );
+  }
+}
+
 /**
  * Check if a command is available in the system
  */
@@ -121,6 +170,21 @@ export async function isCommandAvailable(command: string): Promise<boolean> {
   }
 }
 
+/**
+ * Error of a command that exited with a non-zero code, with its full output
+ */
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number,
+    public readonly stdout: string,
+    public readonly stderr: string,
+  ) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
 /**
  * Custom error class for publishjs
  */
@@ -171,6 +235,18 @@ export function formatList(items: string[]): string {
   return items.map((item) => `  • ${item}`).join("\n");
 }
 
+/**
+ * Format a byte count for display (e.g., 1.5 kB)
+ */
+export function formatBytes(bytes: number): string {
+  const sign = bytes < 0 ? "-" : "";
+  const value = Math.abs(bytes);
+
+  if (value < 1000) return `${sign}${value} B`;
+  if (value < 1000 * 1000) return `${sign}${(value / 1000).toFixed(1)} kB`;
+  return `${sign}${(value / (1000 * 1000)).toFixed(1)} MB`;
+}
+
 /**
  * Truncate a string to a maximum length
  */
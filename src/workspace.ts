@@ -0,0 +1,337 @@
+/**
+ * Workspace (monorepo) discovery module for deno.json(c) and npm workspaces
+ */
+
+import { exists, expandGlob } from "@std/fs";
+import { dirname, join, resolve } from "@std/path";
+import { createBuiltinAdapters, isNpmRegistry, PackageInfo, RegistryAdapter } from "./registry.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { DenoConfig, findImports, getExportPaths } from "./jsr_validator.ts";
+import { Err, Logger, Ok, PublishError, Result, updateJsonFile } from "./utils.ts";
+
+const NPM_DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+];
+
+/**
+ * Read a JSON or JSONC file, returning null if it is missing or invalid
+ */
+async function readJson(filePath: string): Promise<Record<string, unknown> | null> {
+  try {
+    return parseJsonc(await Deno.readTextFile(filePath)) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the member patterns from deno.json(c) `workspace` and package.json `workspaces`
+ */
+export async function getWorkspacePatterns(path: string = Deno.cwd()): Promise<string[]> {
+  const patterns: string[] = [];
+
+  const denoJson = await readJson(join(path, "deno.json")) ??
+    await readJson(join(path, "deno.jsonc"));
+  if (Array.isArray(denoJson?.workspace)) {
+    patterns.push(...denoJson.workspace);
+  }
+
+  // npm/yarn accept both an array and { packages: [...] }
+  const packageJson = await readJson(join(path, "package.json"));
+  const workspaces = packageJson?.workspaces as string[] | { packages?: string[] } | undefined;
+  if (Array.isArray(workspaces)) {
+    patterns.push(...workspaces);
+  } else if (Array.isArray(workspaces?.packages)) {
+    patterns.push(...workspaces.packages);
+  }
+
+  return [...new Set(patterns.filter((p) => typeof p === "string"))];
+}
+
+/**
+ * Expand a workspace pattern into member directories
+ */
+async function expandPattern(pattern: string, root: string): Promise<string[]> {
+  const normalized = pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+
+  if (!/[*?[{]/.test(normalized)) {
+    const dir = resolve(root, normalized);
+    return await exists(dir, { isDirectory: true }) ? [dir] : [];
+  }
+
+  const dirs: string[] = [];
+  for await (const entry of expandGlob(normalized, { root, includeDirs: true })) {
+    if (entry.isDirectory && !entry.path.includes("node_modules")) {
+      dirs.push(entry.path);
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Discover workspace member directories (empty if the project isn't a workspace)
+ */
+export async function discoverWorkspaceMembers(
+  path: string = Deno.cwd(),
+): Promise<string[]> {
+  const patterns = await getWorkspacePatterns(path);
+  const root = resolve(path);
+
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      (await expandPattern(pattern.substring(1), root)).forEach((dir) => excluded.add(dir));
+    } else {
+      (await expandPattern(pattern, root)).forEach((dir) => included.add(dir));
+    }
+  }
+
+  return [...included].filter((dir) => !excluded.has(dir) && dir !== root).sort();
+}
+
+/**
+ * Detect every versioned manifest in the workspace, including private packages
+ */
+export async function detectWorkspaceManifests(
+  path: string = Deno.cwd(),
+  adapters: RegistryAdapter[] = createBuiltinAdapters(),
+): Promise<PackageInfo[]> {
+  const manifests: PackageInfo[] = [];
+
+  for (const member of await discoverWorkspaceMembers(path)) {
+    for (const adapter of adapters) {
+      const result = await adapter.detect(member);
+      if (result.ok) manifests.push(result.value);
+    }
+  }
+
+  return manifests;
+}
+
+/**
+ * Detect the publishable packages of all workspace members
+ */
+export async function detectWorkspacePackages(
+  path: string = Deno.cwd(),
+  adapters?: RegistryAdapter[],
+): Promise<PackageInfo[]> {
+  const manifests = await detectWorkspaceManifests(path, adapters);
+  return manifests.filter((m) => !m.private);
+}
+
+/**
+ * Split a jsr:/npm: specifier into protocol, package name and version range
+ */
+function parseSpecifier(
+  specifier: string,
+): { protocol: string; name: string; range: string; rest: string } | null {
+  const match = specifier.match(/^(jsr|npm):\/?(@[^/@]+\/[^/@]+|[^/@]+)(?:@([^/]+))?(.*)$/);
+  if (!match) return null;
+
+  return { protocol: match[1], name: match[2], range: match[3] ?? "", rest: match[4] };
+}
+
+/**
+ * Get the package name of a bare specifier (`@scope/name/mod.ts` → `@scope/name`)
+ */
+function getBarePackageName(specifier: string): string | null {
+  if (/^(?:[a-z][a-z0-9+.-]*:|\.{0,2}\/)/i.test(specifier)) return null;
+
+  const match = specifier.match(/^(@[^/]+\/[^/]+|[^/@][^/]*)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Find the bare specifiers imported by the modules reachable from a package's exports
+ *
+ * Deno workspace members import each other by package name, without an
+ * imports map entry.
+ */
+async function readBareImports(path: string, exports: DenoConfig["exports"]): Promise<string[]> {
+  const specifiers = new Set<string>();
+  const visited = new Set<string>();
+  const queue = getExportPaths(exports).map((entry) => resolve(path, entry.path));
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    if (visited.has(file)) continue;
+    visited.add(file);
+
+    let content: string;
+    try {
+      content = await Deno.readTextFile(file);
+    } catch {
+      continue;
+    }
+
+    for (const specifier of findImports(content)) {
+      if (specifier.startsWith("./") || specifier.startsWith("../")) {
+        queue.push(resolve(dirname(file), specifier));
+      } else if (getBarePackageName(specifier)) {
+        specifiers.add(specifier);
+      }
+    }
+  }
+
+  return [...specifiers];
+}
+
+/**
+ * Read the dependencies of a package as a map of package name to version range
+ *
+ * Deno packages depend on the jsr:/npm: packages of their imports map and on
+ * the packages their modules import by bare name (with an empty range).
+ */
+export async function readPackageDependencies(
+  pkg: PackageInfo,
+): Promise<Map<string, string>> {
+  const dependencies = new Map<string, string>();
+  const manifest = await readJson(pkg.manifestPath);
+  if (!manifest) return dependencies;
+
+  if (isNpmRegistry(pkg.registry)) {
+    for (const field of NPM_DEPENDENCY_FIELDS) {
+      const deps = manifest[field] as Record<string, string> | undefined;
+      Object.entries(deps ?? {}).forEach(([name, range]) => dependencies.set(name, range));
+    }
+  } else {
+    const imports = manifest.imports as Record<string, string> | undefined;
+    for (const specifier of Object.values(imports ?? {})) {
+      const parsed = parseSpecifier(specifier);
+      if (parsed) dependencies.set(parsed.name, parsed.range);
+    }
+
+    // Mapped bare specifiers are covered by their imports map entry above
+    for (
+      const specifier of await readBareImports(pkg.path, manifest.exports as DenoConfig["exports"])
+    ) {
+      const name = getBarePackageName(specifier)!;
+      if (
+        !(specifier in (imports ?? {})) && !(name in (imports ?? {})) && !dependencies.has(name)
+      ) {
+        dependencies.set(name, "");
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Order packages so that workspace dependencies are published before their dependents
+ */
+export async function sortByDependencies(
+  packages: PackageInfo[],
+): Promise<Result<PackageInfo[]>> {
+  const names = new Set(packages.map((p) => p.name));
+  const internalDeps = new Map<PackageInfo, string[]>();
+
+  for (const pkg of packages) {
+    const deps = await readPackageDependencies(pkg);
+    internalDeps.set(pkg, [...deps.keys()].filter((d) => names.has(d) && d !== pkg.name));
+  }
+
+  const sorted: PackageInfo[] = [];
+  const remaining = [...packages];
+
+  // Kahn's algorithm, keeping the original order among independent packages
+  while (remaining.length > 0) {
+    const ready = remaining.find((pkg) =>
+      internalDeps.get(pkg)!.every((dep) => sorted.some((s) => s.name === dep))
+    );
+
+    if (!ready) {
+      return Err(
+        new PublishError(
+          `Circular dependency between workspace packages: ${
+            remaining.map((p) => p.name).join(", ")
+          }`,
+          "WORKSPACE_CYCLE",
+        ),
+      );
+    }
+
+    sorted.push(ready);
+    remaining.splice(remaining.indexOf(ready), 1);
+  }
+
+  return Ok(sorted);
+}
+
+/**
+ * Update a version range to a new version, keeping its operator
+ *
+ * Returns null when the range should be left alone (e.g., `workspace:*` or `*`).
+ */
+export function updateVersionRange(range: string, version: string): string | null {
+  const match = range.match(/^(workspace:)?(\^|~|>=|=)?\d+\.\d+\.\d+\S*$/);
+  if (!match) return null;
+
+  return `${match[1] ?? ""}${match[2] ?? ""}${version}`;
+}
+
+/**
+ * Update internal dependency ranges after workspace members were bumped
+ *
+ * Returns the manifests that were changed.
+ */
+export async function updateDependents(
+  manifests: PackageInfo[],
+  bumped: Map<string, string>,
+  logger?: Logger,
+): Promise<Result<string[]>> {
+  const changed: string[] = [];
+  const manifestPaths = [...new Set(manifests.map((m) => m.manifestPath))];
+
+  for (const manifestPath of manifestPaths) {
+    const manifest = await readJson(manifestPath);
+    if (!manifest) continue;
+
+    const updates: { apply: (data: Record<string, unknown>) => void; label: string }[] = [];
+
+    for (const field of NPM_DEPENDENCY_FIELDS) {
+      const deps = manifest[field] as Record<string, string> | undefined;
+      for (const [name, range] of Object.entries(deps ?? {})) {
+        const version = bumped.get(name);
+        const updated = version ? updateVersionRange(range, version) : null;
+        if (updated && updated !== range) {
+          updates.push({
+            apply: (data) => ((data[field] as Record<string, string>)[name] = updated),
+            label: `${name}@${updated}`,
+          });
+        }
+      }
+    }
+
+    const imports = manifest.imports as Record<string, string> | undefined;
+    for (const [key, specifier] of Object.entries(imports ?? {})) {
+      const parsed = parseSpecifier(specifier);
+      const version = parsed ? bumped.get(parsed.name) : undefined;
+      const range = parsed && version ? updateVersionRange(parsed.range, version) : null;
+      if (parsed && range && range !== parsed.range) {
+        const updated = `${parsed.protocol}:${parsed.name}@${range}${parsed.rest}`;
+        updates.push({
+          apply: (data) => ((data.imports as Record<string, string>)[key] = updated),
+          label: updated,
+        });
+      }
+    }
+
+    if (updates.length === 0) continue;
+
+    const writeResult = await updateJsonFile(manifestPath, (data) => {
+      updates.forEach((u) => u.apply(data));
+    });
+    if (!writeResult.ok) return Err(writeResult.error);
+
+    updates.forEach((u) => logger?.debug(`${manifestPath}: ${u.label}`));
+    changed.push(manifestPath);
+  }
+
+  return Ok(changed);
+}
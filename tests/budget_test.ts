@@ -0,0 +1,79 @@
+/**
+ * Tests for size budget module
+ */
+
+import { assertEquals } from "@std/assert";
+import { checkSizeBudget, enforceSizeBudgets, parseSize } from "../src/budget.ts";
+import { PackPreview } from "../src/pack.ts";
+import { Logger, PublishError } from "../src/utils.ts";
+
+const contents = {
+  files: [
+    { path: "README.md", size: 2_000 },
+    { path: "dist/index.js", size: 120_000 },
+    { path: "dist/index.js.map", size: 380_000 },
+    { path: "package.json", size: 600 },
+  ],
+  totalSize: 502_600,
+  packedSize: 140_000,
+};
+
+const preview: PackPreview = {
+  pkg: {
+    name: "@acme/pkg",
+    version: "1.0.0",
+    registry: "npm",
+    path: "/work/pkg",
+    manifestPath: "/work/pkg/package.json",
+  },
+  registryName: "npm",
+  contents,
+};
+
+Deno.test("parseSize - accepts bytes and units", () => {
+  assertEquals(parseSize(2048), 2048);
+  assertEquals(parseSize("500 kB"), 500_000);
+  assertEquals(parseSize("1.5MB"), 1_500_000);
+  assertEquals(parseSize("1 KiB"), 1024);
+  assertEquals(parseSize("12"), 12);
+  assertEquals(parseSize("lots"), null);
+  assertEquals(parseSize("5 parsecs"), null);
+});
+
+Deno.test("checkSizeBudget - reports each exceeded limit", () => {
+  assertEquals(checkSizeBudget(contents, { maxPackedSize: 200_000, maxFiles: 10 }), []);
+  assertEquals(checkSizeBudget(contents, { maxUnpackedSize: 500_000, maxFiles: 3 }), [
+    { limit: "unpacked size", actual: 502_600, max: 500_000 },
+    { limit: "file count", actual: 4, max: 3 },
+  ]);
+});
+
+Deno.test("enforceSizeBudgets - fails with the largest contributors", () => {
+  const result = enforceSizeBudgets(
+    [preview],
+    { npm: { maxPackedSize: "100 kB" } },
+    false,
+    new Logger(false),
+  );
+
+  assertEquals(!result.ok && (result.error as PublishError).code, "SIZE_BUDGET_EXCEEDED");
+  assertEquals(
+    !result.ok && result.error.message.includes("dist/index.js.map (380.0 kB)"),
+    true,
+  );
+});
+
+Deno.test("enforceSizeBudgets - returns ignored budgets for the summary", () => {
+  const budgets = { npm: { maxFiles: 2 }, jsr: { maxFiles: 1 } };
+
+  const ignored = enforceSizeBudgets([preview], budgets, true, new Logger(false));
+  assertEquals(ignored.ok && ignored.value, ["@acme/pkg@1.0.0 (npm): file count 4 > 2"]);
+
+  const invalid = enforceSizeBudgets(
+    [preview],
+    { npm: { maxUnpackedSize: "big" } },
+    true,
+    new Logger(false),
+  );
+  assertEquals(!invalid.ok && (invalid.error as PublishError).code, "CONFIG_INVALID");
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for version bump module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { bumpVersion } from "../src/bump.ts";
+import { parseJsonc } from "../src/jsonc.ts";
+import { Logger } from "../src/utils.ts";
+import { createProject } from "./test_utils.ts";
+
+Deno.test("bumpVersion - bumps the version of both jsr.json and deno.json", async () => {
+  const path = await createProject({
+    "jsr.json": { name: "@acme/pkg", version: "1.2.0", exports: "./mod.ts" },
+    "deno.jsonc": '{\n  // Also versioned\n  "version": "1.2.0",\n  "tasks": {}\n}\n',
+  });
+
+  try {
+    const result = await bumpVersion({ release: "minor", commit: false }, path, new Logger(false));
+    if (!result.ok) throw result.error;
+
+    assertEquals(result.value.files, ["jsr.json", "deno.jsonc"]);
+    for (const file of ["jsr.json", "deno.jsonc"]) {
+      const manifest = parseJsonc(await Deno.readTextFile(join(path, file))) as {
+        version: string;
+      };
+      assertEquals(manifest.version, "1.3.0");
+    }
+    assertEquals(
+      (await Deno.readTextFile(join(path, "deno.jsonc"))).includes("// Also versioned"),
+      true,
+    );
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
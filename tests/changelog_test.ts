@@ -0,0 +1,101 @@
+/**
+ * Tests for changelog module
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  findPreviousTag,
+  getChangelogVersion,
+  insertChangelogEntry,
+  renderChangelogEntry,
+} from "../src/changelog.ts";
+
+const DATE = new Date("2025-03-14T12:00:00Z");
+
+Deno.test("findPreviousTag - finds highest tag below the ref", () => {
+  const tags = ["v1.0.0", "v1.10.0", "v1.2.0", "v2.0.0", "nightly"];
+  assertEquals(findPreviousTag(tags, "v2.0.0"), "v1.10.0");
+  assertEquals(findPreviousTag(tags, "v1.3.0"), "v1.2.0");
+});
+
+Deno.test("findPreviousTag - uses highest tag for non-version refs", () => {
+  assertEquals(findPreviousTag(["v1.0.0", "v1.1.0"], "main"), "v1.1.0");
+});
+
+Deno.test("findPreviousTag - returns null without earlier tags", () => {
+  assertEquals(findPreviousTag(["v2.0.0"], "v1.0.0"), null);
+  assertEquals(findPreviousTag([], "v1.0.0"), null);
+});
+
+Deno.test("getChangelogVersion - strips tag prefix", () => {
+  assertEquals(getChangelogVersion("v1.2.0"), "1.2.0");
+  assertEquals(getChangelogVersion("nightly"), "nightly");
+});
+
+Deno.test("renderChangelogEntry - groups commits by type", () => {
+  const entry = renderChangelogEntry("1.3.0", [
+    { hash: "aaaaaaa1", subject: "feat(cli): add bump", body: "" },
+    { hash: "bbbbbbb2", subject: "fix: handle empty tags", body: "" },
+    { hash: "ccccccc3", subject: "feat!: drop v1 config", body: "" },
+    { hash: "ddddddd4", subject: "chore(release): 1.2.0", body: "" },
+    { hash: "eeeeeee5", subject: "Tweak wording", body: "" },
+    { hash: "fffffff6", subject: "docs: typo", body: "" },
+  ], DATE);
+
+  assertEquals(
+    entry,
+    [
+      "## 1.3.0 - 2025-03-14",
+      "",
+      "### ⚠ Breaking Changes",
+      "",
+      "- drop v1 config (ccccccc)",
+      "",
+      "### Features",
+      "",
+      "- **cli:** add bump (aaaaaaa)",
+      "- drop v1 config (ccccccc)",
+      "",
+      "### Bug Fixes",
+      "",
+      "- handle empty tags (bbbbbbb)",
+      "",
+      "### Other Changes",
+      "",
+      "- Tweak wording (eeeeeee)",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("renderChangelogEntry - notes releases without notable changes", () => {
+  const entry = renderChangelogEntry("1.0.1", [], DATE);
+  assertStringIncludes(entry, "No notable changes.");
+});
+
+Deno.test("insertChangelogEntry - creates new changelog", () => {
+  const result = insertChangelogEntry(null, "## 1.0.0 - 2025-03-14\n", "1.0.0");
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertStringIncludes(result.value, "# Changelog");
+    assertStringIncludes(result.value, "## 1.0.0 - 2025-03-14");
+  }
+});
+
+Deno.test("insertChangelogEntry - inserts above earlier sections", () => {
+  const existing = "# Changelog\n\nIntro.\n\n## 1.0.0 - 2025-01-01\n\n- first\n";
+  const result = insertChangelogEntry(existing, "## 1.1.0 - 2025-03-14\n\n- second\n", "1.1.0");
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(
+      result.value,
+      "# Changelog\n\nIntro.\n\n## 1.1.0 - 2025-03-14\n\n- second\n\n## 1.0.0 - 2025-01-01\n\n- first\n",
+    );
+  }
+});
+
+Deno.test("insertChangelogEntry - rejects duplicate versions", () => {
+  const existing = "# Changelog\n\n## [1.0.0] - 2025-01-01\n";
+  const result = insertChangelogEntry(existing, "## 1.0.0 - 2025-03-14\n", "1.0.0");
+  assertEquals(result.ok, false);
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for conventional module
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  ConventionalCommit,
+  formatCommitSummary,
+  inferReleaseType,
+  parseConventionalCommit,
+} from "../src/conventional.ts";
+
+function commit(subject: string, body = ""): ConventionalCommit {
+  return parseConventionalCommit({ hash: "abcdef1234567", subject, body })!;
+}
+
+Deno.test("parseConventionalCommit - parses type, scope and description", () => {
+  const parsed = commit("feat(cli): add bump command");
+  assertEquals(parsed.type, "feat");
+  assertEquals(parsed.scope, "cli");
+  assertEquals(parsed.breaking, false);
+  assertEquals(parsed.description, "add bump command");
+});
+
+Deno.test("parseConventionalCommit - detects ! breaking marker", () => {
+  assertEquals(commit("refactor!: drop Deno 1 support").breaking, true);
+  assertEquals(commit("feat(api)!: rename options").breaking, true);
+});
+
+Deno.test("parseConventionalCommit - detects BREAKING CHANGE footer", () => {
+  const parsed = commit("feat: new config format", "BREAKING CHANGE: old format removed");
+  assertEquals(parsed.breaking, true);
+});
+
+Deno.test("parseConventionalCommit - ignores non-conventional commits", () => {
+  assertEquals(
+    parseConventionalCommit({ hash: "abc", subject: "Update README", body: "" }),
+    null,
+  );
+});
+
+Deno.test("inferReleaseType - breaking change bumps major", () => {
+  const result = inferReleaseType([commit("fix: a"), commit("feat!: b")], "1.4.2");
+  assertEquals(result.release, "major");
+  assertEquals(result.drivers.map((c) => c.description), ["b"]);
+});
+
+Deno.test("inferReleaseType - breaking change bumps minor before 1.0.0", () => {
+  const result = inferReleaseType([commit("feat!: b")], "0.3.1");
+  assertEquals(result.release, "minor");
+});
+
+Deno.test("inferReleaseType - feature bumps minor", () => {
+  const result = inferReleaseType([commit("fix: a"), commit("feat: b")], "1.4.2");
+  assertEquals(result.release, "minor");
+  assertEquals(result.drivers.length, 1);
+});
+
+Deno.test("inferReleaseType - fix bumps patch", () => {
+  const result = inferReleaseType([commit("fix: a"), commit("chore: b")], "1.4.2");
+  assertEquals(result.release, "patch");
+  assertEquals(result.drivers.length, 1);
+});
+
+Deno.test("inferReleaseType - defaults to patch without drivers", () => {
+  const result = inferReleaseType([commit("docs: a")], "1.4.2");
+  assertEquals(result.release, "patch");
+  assertEquals(result.drivers, []);
+});
+
+Deno.test("formatCommitSummary - formats short summary", () => {
+  assertEquals(
+    formatCommitSummary(commit("feat(cli)!: add flag")),
+    "abcdef1 feat(cli)!: add flag",
+  );
+});
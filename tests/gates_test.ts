@@ -0,0 +1,83 @@
+/**
+ * Tests for quality gates module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { resolveGates, runGates } from "../src/gates.ts";
+import { Logger, PublishError } from "../src/utils.ts";
+import { createProject } from "./test_utils.ts";
+
+Deno.test("resolveGates - defaults to deno.json tasks, then package.json scripts", async () => {
+  const path = await createProject({
+    "deno.json": { tasks: { check: "deno check mod.ts", dev: "deno run mod.ts" } },
+    "package.json": { scripts: { check: "tsc", test: "vitest", build: "tsc" } },
+  });
+  await Deno.writeTextFile(join(path, "pnpm-lock.yaml"), "");
+
+  try {
+    assertEquals(await resolveGates(path), {
+      ok: true,
+      value: [
+        { name: "check", command: "deno task check" },
+        { name: "test", command: "pnpm run test" },
+      ],
+    });
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("resolveGates - configured gates replace the defaults", async () => {
+  const path = await createProject({ "deno.json": { tasks: { test: "deno test" } } });
+
+  try {
+    assertEquals(
+      await resolveGates(path, {
+        gates: ["deno check mod.ts", { name: "e2e", command: "deno task e2e" }],
+      }),
+      {
+        ok: true,
+        value: [
+          { name: "deno check mod.ts", command: "deno check mod.ts" },
+          { name: "e2e", command: "deno task e2e" },
+        ],
+      },
+    );
+    assertEquals(await resolveGates(path, { gates: [] }), { ok: true, value: [] });
+
+    const invalid = await resolveGates(path, { gates: [""] });
+    assertEquals(!invalid.ok && (invalid.error as PublishError).code, "CONFIG_INVALID");
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("runGates - stops at the first failing gate and shows its output", async () => {
+  const path = await Deno.makeTempDir();
+  const errors: string[] = [];
+  const consoleError = console.error;
+  console.error = (message: string) => errors.push(message);
+
+  try {
+    const result = await runGates(
+      [
+        { name: "first", command: "touch first" },
+        { name: "failing", command: "echo checking; echo broken >&2; exit 1" },
+        { name: "last", command: "touch last" },
+      ],
+      path,
+      new Logger(false),
+    );
+
+    assertEquals(!result.ok && (result.error as PublishError).code, "GATE_FAILED");
+    assertEquals((await Deno.stat(join(path, "first"))).isFile, true);
+    assertEquals((await Deno.stat(join(path, "last")).catch(() => null)) === null, true);
+    assertEquals(errors.length, 3);
+    assertEquals(errors[1].endsWith("checking"), true);
+    assertEquals(errors[2].endsWith("broken"), true);
+  } finally {
+    console.error = consoleError;
+    await Deno.remove(path, { recursive: true });
+  }
+});
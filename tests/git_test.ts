@@ -0,0 +1,322 @@
+/**
+ * Tests for Git operations module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import {
+  commitFiles,
+  deleteTag,
+  getBranchesContaining,
+  getChangedFiles,
+  getForcePushLeases,
+  getGitStatus,
+  getRepoRoot,
+  getUpstreamStatus,
+  getUserIdentity,
+  isAncestor,
+  isGitRepository,
+  parsePushPorcelain,
+  pull,
+  push,
+  PushStatus,
+  resetBranch,
+} from "../src/git.ts";
+import { createRepository, git, GIT_IDENTITY } from "./test_utils.ts";
+
+Deno.test("parsePushPorcelain - reads the status of each ref", () => {
+  const output = [
+    "To github.com:acme/pkg.git",
+    " \trefs/heads/main:refs/heads/main\t21891a3..cafda24",
+    "*\trefs/tags/v1.0.0:refs/tags/v1.0.0\t[new tag]",
+    "=\trefs/tags/v0.9.0:refs/tags/v0.9.0\t[up to date]",
+    "!\trefs/heads/next:refs/heads/next\t[rejected] (fetch first)",
+    "Done",
+  ].join("\n");
+
+  assertEquals(parsePushPorcelain(output), [
+    { ref: "refs/heads/main", status: PushStatus.UPDATED, summary: "21891a3..cafda24" },
+    { ref: "refs/tags/v1.0.0", status: PushStatus.NEW, summary: "[new tag]" },
+    { ref: "refs/tags/v0.9.0", status: PushStatus.UP_TO_DATE, summary: "[up to date]" },
+    { ref: "refs/heads/next", status: PushStatus.REJECTED, summary: "[rejected] (fetch first)" },
+  ]);
+});
+
+Deno.test("push - pushes the branch and its tag atomically", async () => {
+  const { root, path, origin } = await createRepository();
+
+  try {
+    await git(path, "commit", "-q", "--allow-empty", "-m", "release");
+    await git(path, "tag", "-a", "v1.0.0", "-m", "v1.0.0");
+    assertEquals(await isAncestor("v1.0.0", "HEAD", path), true);
+
+    const result = await push(
+      "origin",
+      ["refs/heads/main", "refs/tags/v1.0.0"],
+      { atomic: true },
+      path,
+    );
+    assertEquals(result.ok && result.value.map((r) => [r.ref, r.status]), [
+      ["refs/heads/main", PushStatus.UPDATED],
+      ["refs/tags/v1.0.0", PushStatus.NEW],
+    ]);
+    assertEquals(await git(origin, "rev-parse", "main"), await git(path, "rev-parse", "main"));
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("push - a rejected branch keeps the tag off the remote", async () => {
+  const { root, path, origin } = await createRepository();
+
+  try {
+    // Someone else pushed to main in the meantime
+    const other = join(root, "other");
+    await git(root, "clone", "-q", origin, other);
+    await git(other, "commit", "-q", "--allow-empty", "-m", "concurrent");
+    await git(other, "push", "-q", "origin", "main");
+
+    await git(path, "commit", "-q", "--allow-empty", "-m", "release");
+    await git(path, "tag", "v1.0.0");
+
+    const result = await push(
+      "origin",
+      ["refs/heads/main", "refs/tags/v1.0.0"],
+      { atomic: true },
+      path,
+    );
+    assertEquals(result.ok, false);
+    assertEquals(await git(origin, "tag", "--list"), "");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getForcePushLeases - lists the remote commits a force push discards", async () => {
+  const { root, path, origin } = await createRepository();
+
+  try {
+    await git(path, "commit", "-q", "--allow-empty", "-m", "teammate's fix");
+    await git(path, "push", "-q", "origin", "main");
+    await git(path, "reset", "-q", "--hard", "HEAD~1");
+    await git(path, "commit", "-q", "--allow-empty", "-m", "rewritten");
+
+    const result = await getForcePushLeases("origin", ["refs/heads/main"], path);
+    if (!result.ok) throw result.error;
+    const [lease] = result.value;
+
+    assertEquals(lease.expected, await git(origin, "rev-parse", "main"));
+    assertEquals(lease.discarded.map((c) => c.subject), ["teammate's fix"]);
+
+    // The remote moved since the last fetch: the lease keeps the push from overwriting it
+    const other = join(root, "other");
+    await git(root, "clone", "-q", origin, other);
+    await git(other, "commit", "-q", "--allow-empty", "-m", "concurrent");
+    await git(other, "push", "-q", "origin", "main");
+
+    const pushResult = await push("origin", "refs/heads/main", { leases: result.value }, path);
+    assertEquals(pushResult.ok, false);
+    assertEquals(await git(origin, "log", "-1", "--format=%s", "main"), "concurrent");
+
+    await git(path, "fetch", "-q", "origin");
+    const refreshed = await getForcePushLeases("origin", ["refs/heads/main"], path);
+    if (!refreshed.ok) throw refreshed.error;
+    const forced = await push("origin", "refs/heads/main", { leases: refreshed.value }, path);
+    assertEquals(forced.ok && forced.value[0].status, PushStatus.FORCED);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getUpstreamStatus - fetches and counts commits ahead and behind", async () => {
+  const { root, path, origin } = await createRepository();
+
+  try {
+    assertEquals(await getUpstreamStatus("main", path), {
+      ok: true,
+      value: { upstream: "origin/main", ahead: 0, behind: 0, diverged: false },
+    });
+
+    const other = join(root, "other");
+    await git(root, "clone", "-q", origin, other);
+    await git(other, "commit", "-q", "--allow-empty", "-m", "concurrent");
+    await git(other, "push", "-q", "origin", "main");
+
+    // Not fetched yet, the last known state is still in sync
+    assertEquals(await getGitStatus(path), {
+      ok: true,
+      value: {
+        isRepo: true,
+        hasRemote: true,
+        currentBranch: "main",
+        isDirty: false,
+        upstream: "origin/main",
+        ahead: 0,
+        behind: 0,
+        diverged: false,
+      },
+    });
+
+    const behind = await getUpstreamStatus("main", path, { fetch: true });
+    assertEquals(behind.ok && behind.value.behind, 1);
+    assertEquals(behind.ok && behind.value.diverged, false);
+
+    await git(path, "commit", "-q", "--allow-empty", "-m", "release");
+    const diverged = await getUpstreamStatus("main", path);
+    assertEquals(diverged.ok && [diverged.value.ahead, diverged.value.diverged], [1, true]);
+
+    // The rebase rewrites commits, so it needs an identity in the repository
+    await git(path, "config", "user.name", GIT_IDENTITY.GIT_COMMITTER_NAME);
+    await git(path, "config", "user.email", GIT_IDENTITY.GIT_COMMITTER_EMAIL);
+    const pullResult = await pull({ rebase: true }, path);
+    assertEquals(pullResult.ok, true);
+    const rebased = await getUpstreamStatus("main", path);
+    assertEquals(rebased.ok && [rebased.value.ahead, rebased.value.behind], [1, 0]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getUpstreamStatus - a branch without upstream has nothing to compare", async () => {
+  const { root, path } = await createRepository();
+
+  try {
+    await git(path, "checkout", "-q", "-b", "feature");
+    assertEquals(await getUpstreamStatus("feature", path), {
+      ok: true,
+      value: { upstream: null, ahead: 0, behind: 0, diverged: false },
+    });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getGitStatus - reports an upstream it can't fetch as unknown", async () => {
+  const { root, path, origin } = await createRepository();
+
+  try {
+    await Deno.remove(origin, { recursive: true });
+
+    assertEquals((await getUpstreamStatus("main", path, { fetch: true })).ok, false);
+    const status = await getGitStatus(path, { fetch: true });
+    assertEquals(status.ok && [status.value.currentBranch, status.value.upstream], [
+      "main",
+      null,
+    ]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getBranchesContaining - names local and remote-tracking branches of a commit", async () => {
+  const { root, path } = await createRepository();
+
+  try {
+    await git(path, "checkout", "-q", "-b", "feature/login");
+    await git(path, "commit", "-q", "--allow-empty", "-m", "login");
+    await git(path, "tag", "v1.1.0-login");
+
+    assertEquals(await getBranchesContaining("v1.1.0-login", path), {
+      ok: true,
+      value: ["feature/login"],
+    });
+
+    // origin/main and main are the same branch
+    const result = await getBranchesContaining("main", path);
+    assertEquals(result.ok && result.value.sort(), ["feature/login", "main"]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getUserIdentity - returns the name and email without the timestamp", async () => {
+  const { root, path } = await createRepository();
+
+  try {
+    await git(path, "config", "user.name", "Jane Doe");
+    await git(path, "config", "user.email", "jane@example.com");
+    assertEquals(await getUserIdentity(path), { ok: true, value: "Jane Doe <jane@example.com>" });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("isGitRepository - detects subdirectories and worktrees", async () => {
+  const { root, path } = await createRepository();
+
+  try {
+    const packageDir = join(path, "packages", "core");
+    await Deno.mkdir(packageDir, { recursive: true });
+    const worktree = join(root, "worktree");
+    await git(path, "worktree", "add", "-q", "--detach", worktree);
+
+    assertEquals(await isGitRepository(packageDir), true);
+    assertEquals(await isGitRepository(worktree), true);
+    assertEquals(await isGitRepository(root), false);
+
+    const repoRoot = await Deno.realPath(path);
+    assertEquals(await getRepoRoot(packageDir), { ok: true, value: repoRoot });
+    assertEquals(await getRepoRoot(worktree), { ok: true, value: await Deno.realPath(worktree) });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("commitFiles - leaves changes the user staged out of the commit", async () => {
+  const { root, path } = await createRepository();
+
+  try {
+    await git(path, "config", "user.name", "Test");
+    await git(path, "config", "user.email", "test@example.com");
+    await Deno.writeTextFile(join(path, "wip.ts"), "export const wip = true;\n");
+    await git(path, "add", "wip.ts");
+    await Deno.writeTextFile(join(path, "CHANGELOG.md"), "# Changelog\n");
+
+    const result = await commitFiles(["CHANGELOG.md"], "docs(changelog): 1.0.0", path);
+    assertEquals(result.ok, true);
+    assertEquals(await git(path, "show", "--name-only", "--format=", "HEAD"), "CHANGELOG.md");
+    assertEquals(await git(path, "diff", "--cached", "--name-only"), "wip.ts");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getChangedFiles - lists modified and untracked files from the repository root", async () => {
+  const { root, path } = await createRepository();
+
+  try {
+    const packageDir = join(path, "packages", "core");
+    await Deno.mkdir(packageDir, { recursive: true });
+    await Deno.writeTextFile(join(packageDir, "package.json"), "{}\n");
+    await Deno.writeTextFile(join(path, "README.md"), "# repo\n");
+    await git(path, "add", "README.md");
+    await git(path, "commit", "-q", "-m", "readme");
+    await Deno.writeTextFile(join(path, "README.md"), "# repo!\n");
+
+    const result = await getChangedFiles(packageDir);
+    assertEquals(result.ok && result.value, ["README.md", "packages/core/package.json"]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("resetBranch - undoes release commits and keeps unrelated changes", async () => {
+  const { root, path } = await createRepository();
+
+  try {
+    const head = await git(path, "rev-parse", "HEAD");
+    await Deno.writeTextFile(join(path, "notes.txt"), "work in progress\n");
+    await Deno.writeTextFile(join(path, "CHANGELOG.md"), "# Changelog\n");
+    await git(path, "add", "CHANGELOG.md");
+    await git(path, "commit", "-q", "-m", "docs(changelog): 1.0.0");
+    await git(path, "tag", "v1.0.0");
+
+    assertEquals(await deleteTag("v1.0.0", path), { ok: true, value: undefined });
+    assertEquals(await resetBranch(head, path), { ok: true, value: undefined });
+    assertEquals(await git(path, "rev-parse", "HEAD"), head);
+    assertEquals(await git(path, "tag"), "");
+    assertEquals(await git(path, "status", "--porcelain"), "?? notes.txt");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for lifecycle hooks module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { getHookCommands, getHookEnv, HookName, runHooks, validateHooks } from "../src/hooks.ts";
+import { Logger, PublishError } from "../src/utils.ts";
+
+Deno.test("validateHooks - rejects unknown hooks and empty commands", () => {
+  assertEquals(
+    validateHooks({
+      prePublish: "deno task test",
+      "preRegistry:npm:github": ["deno task build", { module: "scripts/notify.ts" }],
+      onFailure: { command: "echo failed" },
+    }).ok,
+    true,
+  );
+
+  const unknown = validateHooks({ beforePublish: "deno task test" });
+  assertEquals(!unknown.ok && unknown.error.message.startsWith("Unknown hook"), true);
+  assertEquals(validateHooks({ "prePublish:npm": "echo" }).ok, false);
+  assertEquals(validateHooks({ postPublish: {} }).ok, false);
+});
+
+Deno.test("getHookCommands - registry hooks include the registry-specific ones", () => {
+  const hooks = {
+    preRegistry: "echo all",
+    "preRegistry:jsr": ["echo jsr", "echo again"],
+    "preRegistry:npm": "echo npm",
+  };
+
+  assertEquals(getHookCommands(hooks, HookName.PRE_REGISTRY, "jsr"), [
+    "echo all",
+    "echo jsr",
+    "echo again",
+  ]);
+  assertEquals(getHookCommands(hooks, HookName.POST_PUBLISH), []);
+});
+
+Deno.test("getHookEnv - passes the context as PUBLISHJS_* variables", () => {
+  assertEquals(
+    getHookEnv("postRegistry", {
+      ref: "v1.2.0",
+      version: "1.2.0",
+      remote: "origin",
+      registries: ["npm", "jsr"],
+      registry: "jsr",
+      packageName: "@acme/pkg",
+    }),
+    {
+      PUBLISHJS_HOOK: "postRegistry",
+      PUBLISHJS_REF: "v1.2.0",
+      PUBLISHJS_VERSION: "1.2.0",
+      PUBLISHJS_REMOTE: "origin",
+      PUBLISHJS_REGISTRIES: "npm,jsr",
+      PUBLISHJS_REGISTRY: "jsr",
+      PUBLISHJS_PACKAGE: "@acme/pkg",
+    },
+  );
+});
+
+Deno.test("runHooks - runs commands with the context and stops at a failure", async () => {
+  const path = await Deno.makeTempDir();
+  const logger = new Logger(false);
+  const context = { ref: "v1.0.0", version: "1.0.0", remote: "origin", registries: ["npm"] };
+
+  try {
+    const result = await runHooks(
+      {
+        prePublish: ['echo "$PUBLISHJS_REF $PUBLISHJS_REGISTRIES" > hook.txt', "exit 3", "touch x"],
+      },
+      HookName.PRE_PUBLISH,
+      context,
+      { path, logger },
+    );
+
+    assertEquals(!result.ok && (result.error as PublishError).code, "HOOK_FAILED");
+    assertEquals(await Deno.readTextFile(join(path, "hook.txt")), "v1.0.0 npm\n");
+    assertEquals((await Deno.stat(join(path, "x")).catch(() => null)) === null, true);
+
+    const dryRun = await runHooks(
+      { prePublish: "touch x" },
+      HookName.PRE_PUBLISH,
+      context,
+      { path, logger, dryRun: true },
+    );
+    assertEquals(dryRun.ok, true);
+    assertEquals((await Deno.stat(join(path, "x")).catch(() => null)) === null, true);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for JSONC module
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { join } from "@std/path";
+import { applyJsoncChanges, parseJsonc, removeJsoncValue, setJsoncValue } from "../src/jsonc.ts";
+import { detectJsrPackage } from "../src/registry.ts";
+import { updateJsonFile } from "../src/utils.ts";
+
+const DENO_JSONC = `{
+    // Published to JSR
+    "name": "@acme/pkg",
+    "version": "1.0.0", /* bumped by publishjs */
+    "exports": "./mod.ts",
+    "imports": {
+        "@std/path": "jsr:@std/path@^1.0.0", // pinned
+    },
+}
+`;
+
+Deno.test("parseJsonc - accepts comments and trailing commas", () => {
+  assertEquals(parseJsonc(DENO_JSONC), {
+    name: "@acme/pkg",
+    version: "1.0.0",
+    exports: "./mod.ts",
+    imports: { "@std/path": "jsr:@std/path@^1.0.0" },
+  });
+  assertEquals(parseJsonc('{"url": "https://example.com/*"}'), {
+    url: "https://example.com/*",
+  });
+  assertThrows(() => parseJsonc('{"a": 1'), SyntaxError);
+});
+
+Deno.test("setJsoncValue - replaces only the edited value", () => {
+  assertEquals(
+    setJsoncValue(DENO_JSONC, ["version"], "1.1.0"),
+    DENO_JSONC.replace('"1.0.0"', '"1.1.0"'),
+  );
+});
+
+Deno.test("setJsoncValue - adds keys with the file's indentation and comma style", () => {
+  const updated = setJsoncValue(DENO_JSONC, ["imports", "@std/fs"], "jsr:@std/fs@^1.0.0");
+  assertEquals(
+    updated,
+    DENO_JSONC.replace(
+      "// pinned\n",
+      '// pinned\n        "@std/fs": "jsr:@std/fs@^1.0.0",\n',
+    ),
+  );
+
+  const json = '{\n  "name": "pkg",\n  "version": "1.0.0" // current\n}\n';
+  assertEquals(
+    setJsoncValue(json, ["publish", "include"], ["src"]),
+    '{\n  "name": "pkg",\n  "version": "1.0.0", // current\n' +
+      '  "publish": {\n    "include": [\n      "src"\n    ]\n  }\n}\n',
+  );
+
+  assertEquals(setJsoncValue('{"a": 1}', ["b"], true), '{"a": 1, "b": true}');
+  assertEquals(setJsoncValue("{}\n", ["a"], 1), '{\n  "a": 1\n}\n');
+});
+
+Deno.test("removeJsoncValue - removes a member and its comma", () => {
+  const json = '{\n  "a": 1,\n  "b": 2,\n  "c": 3\n}\n';
+  assertEquals(removeJsoncValue(json, ["b"]), '{\n  "a": 1,\n  "c": 3\n}\n');
+  assertEquals(removeJsoncValue(json, ["c"]), '{\n  "a": 1,\n  "b": 2\n}\n');
+  assertEquals(removeJsoncValue('{ "a": 1 }', ["a"]), "{}");
+  assertEquals(removeJsoncValue(json, ["missing"]), json);
+});
+
+Deno.test("removeJsoncValue - keeps the comments of the other members", () => {
+  const jsonc = [
+    "{",
+    "  // The package name",
+    '  "name": "pkg",',
+    "  // Removed below",
+    '  "private": true, // not published yet',
+    "  // Bumped by publishjs",
+    '  "version": "1.0.0"',
+    "}",
+    "",
+  ].join("\n");
+
+  assertEquals(
+    removeJsoncValue(jsonc, ["private"]),
+    [
+      "{",
+      "  // The package name",
+      '  "name": "pkg",',
+      "  // Removed below",
+      "  // Bumped by publishjs",
+      '  "version": "1.0.0"',
+      "}",
+      "",
+    ].join("\n"),
+  );
+  assertEquals(
+    removeJsoncValue(jsonc, ["version"]),
+    [
+      "{",
+      "  // The package name",
+      '  "name": "pkg",',
+      "  // Removed below",
+      '  "private": true // not published yet',
+      "  // Bumped by publishjs",
+      "}",
+      "",
+    ].join("\n"),
+  );
+  assertEquals(removeJsoncValue('{ "a": 1, "b": 2 }', ["a"]), '{ "b": 2 }');
+  assertEquals(removeJsoncValue('{ "a": 1, "b": 2 }', ["b"]), '{ "a": 1 }');
+});
+
+Deno.test("applyJsoncChanges - rewrites only what changed", () => {
+  const before = parseJsonc(DENO_JSONC) as Record<string, unknown>;
+  const after = structuredClone(before);
+  after.version = "2.0.0";
+  delete after.exports;
+
+  assertEquals(
+    applyJsoncChanges(DENO_JSONC, before, after),
+    DENO_JSONC.replace('"1.0.0"', '"2.0.0"').replace('    "exports": "./mod.ts",\n', ""),
+  );
+});
+
+Deno.test("updateJsonFile - bumps deno.jsonc without touching comments", async () => {
+  const path = await Deno.makeTempDir();
+  const manifestPath = join(path, "deno.jsonc");
+  await Deno.writeTextFile(manifestPath, DENO_JSONC);
+
+  try {
+    const pkg = await detectJsrPackage(path);
+    assertEquals(pkg.ok && pkg.value.manifestPath, manifestPath);
+
+    const result = await updateJsonFile(manifestPath, (data) => (data.version = "1.0.1"));
+    if (!result.ok) throw result.error;
+
+    assertEquals(
+      await Deno.readTextFile(manifestPath),
+      DENO_JSONC.replace('"1.0.0"', '"1.0.1"'),
+    );
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for JSR publish pre-flight module
+ */
+
+import { assertEquals } from "@std/assert";
+import { DiagnosticSeverity, parsePublishDiagnostics } from "../src/jsr_diagnostics.ts";
+
+const DRY_RUN_OUTPUT = `Check file:///work/pkg/mod.ts
+Checking for slow types in the public API...
+error[missing-explicit-return-type]: missing explicit return type in the public API
+ --> /work/pkg/mod.ts:3:17
+  |
+3 | export function add(a: number, b: number) {
+  |                 ^^^ this function is missing an explicit return type
+  |
+  = hint: add an explicit return type to the function
+
+  info: all functions in the public API must have an explicit return type
+  docs: https://jsr.io/go/slow-type-missing-explicit-return-type
+
+error[missing-license]: missing license field or file
+ --> /work/pkg/deno.json
+  = hint: add a "license" field. Alternatively, add a LICENSE file to the package and ensure it is not ignored from being published
+
+  docs: https://jsr.io/go/missing-license
+
+warning[unanalyzable-dynamic-import]: unable to analyze dynamic import
+ --> /work/pkg/src/loader.ts:2:22
+  |
+2 | const mod = await import(name);
+  |                          ^^^^ the unanalyzable dynamic import
+
+  info: after publishing this package, imports from the local import map / package.json do not work
+  docs: https://jsr.io/go/unanalyzable-dynamic-import
+
+error: Found 2 problems
+`;
+
+Deno.test("parsePublishDiagnostics - parses rules, locations and hints", () => {
+  assertEquals(parsePublishDiagnostics(DRY_RUN_OUTPUT, "/work/pkg"), [
+    {
+      severity: DiagnosticSeverity.ERROR,
+      rule: "missing-explicit-return-type",
+      message: "missing explicit return type in the public API",
+      file: "mod.ts",
+      line: 3,
+      column: 17,
+      hint: "add an explicit return type to the function",
+      docs: "https://jsr.io/go/slow-type-missing-explicit-return-type",
+    },
+    {
+      severity: DiagnosticSeverity.ERROR,
+      rule: "missing-license",
+      message: "missing license field or file",
+      file: "deno.json",
+      hint:
+        'add a "license" field. Alternatively, add a LICENSE file to the package and ensure it is not ignored from being published',
+      docs: "https://jsr.io/go/missing-license",
+    },
+    {
+      severity: DiagnosticSeverity.WARNING,
+      rule: "unanalyzable-dynamic-import",
+      message: "unable to analyze dynamic import",
+      file: "src/loader.ts",
+      line: 2,
+      column: 22,
+      docs: "https://jsr.io/go/unanalyzable-dynamic-import",
+    },
+  ]);
+});
+
+Deno.test("parsePublishDiagnostics - keeps general errors and strips colors", () => {
+  const output = "\x1b[0m\x1b[1m\x1b[31merror\x1b[0m: Aborting due to uncommitted changes. " +
+    "Check in source code or run with --allow-dirty\n";
+
+  assertEquals(parsePublishDiagnostics(output), [
+    {
+      severity: DiagnosticSeverity.ERROR,
+      message:
+        "Aborting due to uncommitted changes. Check in source code or run with --allow-dirty",
+    },
+  ]);
+  assertEquals(parsePublishDiagnostics("Success Dry run complete\n"), []);
+});
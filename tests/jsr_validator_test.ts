@@ -0,0 +1,186 @@
+/**
+ * Tests for JSR configuration validator module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import {
+  evaluatePublishFiles,
+  findImports,
+  findJsrConfigFile,
+  hasModuleDoc,
+  isUnversionedSpecifier,
+  validateJsrConfig,
+} from "../src/jsr_validator.ts";
+import { detectJsrPackage } from "../src/registry.ts";
+import { createProject } from "./test_utils.ts";
+
+Deno.test("validateJsrConfig - validates a jsr.json-only project", async () => {
+  const path = await createProject({
+    "jsr.json": { name: "@acme/pkg", version: "1.0.0", exports: "./mod.ts" },
+    "mod.ts": "/**\n * Acme package\n * @module\n */\n\nexport const a = 1;\n",
+  });
+
+  try {
+    const result = await validateJsrConfig(path);
+    if (!result.ok) throw result.error;
+
+    assertEquals(result.value.isValid, true);
+    assertEquals(result.value.configPath, join(path, "jsr.json"));
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("validateJsrConfig - jsr.json takes precedence over deno.json", async () => {
+  const path = await createProject({
+    "deno.json": { tasks: { test: "deno test" } },
+    "jsr.json": { name: "@acme/pkg", version: "1.0.0" },
+  });
+
+  try {
+    assertEquals(await findJsrConfigFile(path), join(path, "jsr.json"));
+
+    const pkg = await detectJsrPackage(path);
+    assertEquals(pkg.ok && pkg.value.manifestPath, join(path, "jsr.json"));
+
+    const result = await validateJsrConfig(path, join(path, "jsr.json"));
+    if (!result.ok) throw result.error;
+
+    assertEquals(result.value.hasValidName, true);
+    assertEquals(result.value.hasExports, false);
+    assertEquals(result.value.issues, ["Missing 'exports' field"]);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("validateJsrConfig - reports a missing manifest", async () => {
+  const path = await createProject({});
+
+  try {
+    const result = await validateJsrConfig(path);
+    assertEquals(result.ok && result.value.hasConfig, false);
+    assertEquals(result.ok && result.value.issues, [
+      "deno.json, deno.jsonc or jsr.json file not found",
+    ]);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("hasModuleDoc - detects the module doc comment", () => {
+  assertEquals(hasModuleDoc("/**\n * Utilities\n * @module\n */\nexport const a = 1;"), true);
+  assertEquals(
+    hasModuleDoc("// deno-lint-ignore-file\n/** Utilities */\n\nimport { a } from './a.ts';"),
+    true,
+  );
+  assertEquals(hasModuleDoc("/** The answer */\nexport const answer = 42;"), false);
+  assertEquals(hasModuleDoc("export const answer = 42;"), false);
+});
+
+Deno.test("findImports - finds static, side-effect and dynamic imports", () => {
+  const content = [
+    'import { join } from "jsr:@std/path";',
+    "import type { A } from './types.ts';",
+    'export * from "./b.ts";',
+    'import "./polyfill.ts";',
+    'const c = await import("https://example.com/c.ts");',
+  ].join("\n");
+
+  assertEquals(findImports(content), [
+    "jsr:@std/path",
+    "./types.ts",
+    "./b.ts",
+    "./polyfill.ts",
+    "https://example.com/c.ts",
+  ]);
+  assertEquals(isUnversionedSpecifier("jsr:@std/path"), true);
+  assertEquals(isUnversionedSpecifier("npm:chalk@^5.0.0"), false);
+  assertEquals(isUnversionedSpecifier("npm:/preact/hooks"), true);
+});
+
+Deno.test("evaluatePublishFiles - applies publish.include and exclude", () => {
+  const files = ["README.md", "deno.json", "src/mod.ts", "src/mod_test.ts", "tests/a_test.ts"];
+
+  assertEquals(
+    evaluatePublishFiles(files, {
+      publish: { include: ["README.md", "deno.json", "src/"], exclude: ["**/*_test.ts"] },
+    }),
+    {
+      published: ["README.md", "deno.json", "src/mod.ts"],
+      excluded: ["src/mod_test.ts", "tests/a_test.ts"],
+    },
+  );
+  assertEquals(evaluatePublishFiles(files, { exclude: ["tests"] }).excluded, ["tests/a_test.ts"]);
+});
+
+Deno.test("validateJsrConfig - flags exports, imports and files JSR would reject", async () => {
+  const path = await createProject({
+    "deno.json": {
+      name: "@acme/pkg",
+      version: "1.0.0",
+      exports: { ".": "./mod.ts", "./cli": "./cli.ts" },
+      imports: { "chalk": "npm:chalk", "@std/path": "jsr:@std/path@^1.0.0" },
+      publish: { exclude: ["internal/"] },
+    },
+    "mod.ts": 'import "./internal/setup.ts";\nimport { x } from "https://deno.land/x/x.ts";\n',
+    "internal/setup.ts": "export {};\n",
+  });
+
+  try {
+    const result = await validateJsrConfig(path);
+    if (!result.ok) throw result.error;
+    const validation = result.value;
+
+    assertEquals(validation.isValid, false);
+    assertEquals(validation.missingExports, [{ key: "./cli", path: "./cli.ts" }]);
+    assertEquals(validation.undocumentedModules, ["mod.ts"]);
+    assertEquals(validation.unversionedImports, [{ key: "chalk", path: "npm:chalk" }]);
+    assertEquals(validation.importIssues, [
+      {
+        file: "mod.ts",
+        specifier: "./internal/setup.ts",
+        reason: "unpublished",
+        target: "internal/setup.ts",
+      },
+      { file: "mod.ts", specifier: "https://deno.land/x/x.ts", reason: "remote" },
+    ]);
+    assertEquals(validation.excludedFiles, ["internal/setup.ts"]);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("validateJsrConfig - checks jsr.json packages against the deno.json imports map", async () => {
+  const path = await createProject({
+    "jsr.json": {
+      name: "@acme/pkg",
+      version: "1.0.0",
+      exports: "./mod.ts",
+      publish: { exclude: ["internal/"] },
+    },
+    "deno.json": { imports: { "chalk": "npm:chalk", "#internal/": "./internal/" } },
+    "mod.ts": 'import chalk from "chalk";\nimport { setup } from "#internal/setup.ts";\n',
+    "internal/setup.ts": "export const setup = 1;\n",
+  });
+
+  try {
+    const result = await validateJsrConfig(path);
+    if (!result.ok) throw result.error;
+    const validation = result.value;
+
+    assertEquals(validation.importMapPath, join(path, "deno.json"));
+    assertEquals(validation.unversionedImports, [{ key: "chalk", path: "npm:chalk" }]);
+    assertEquals(validation.importIssues, [
+      {
+        file: "mod.ts",
+        specifier: "#internal/setup.ts",
+        reason: "unpublished",
+        target: "internal/setup.ts",
+      },
+    ]);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for npm build module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { createNpmPackageJson, getEntryPoints } from "../src/npm_build.ts";
+import { createNpmAdapter } from "../src/registry.ts";
+import { Logger, PublishError } from "../src/utils.ts";
+
+Deno.test("getEntryPoints - maps deno.json exports to entry points", () => {
+  assertEquals(getEntryPoints("./mod.ts", "/work/pkg"), [
+    { name: ".", path: "/work/pkg/mod.ts" },
+  ]);
+  assertEquals(getEntryPoints({ ".": "./mod.ts", "./cli": "./src/cli.ts" }, "/work/pkg"), [
+    { name: ".", path: "/work/pkg/mod.ts" },
+    { name: "./cli", path: "/work/pkg/src/cli.ts" },
+  ]);
+  assertEquals(getEntryPoints(undefined, "/work/pkg"), []);
+});
+
+Deno.test("createNpmPackageJson - generates package.json from Deno metadata", () => {
+  const repository = { type: "git", url: "git+https://github.com/acme/pkg.git" };
+
+  assertEquals(
+    createNpmPackageJson(
+      { name: "@acme/pkg", version: "1.2.0", license: "MIT", exports: "./mod.ts" },
+      {},
+      repository,
+    ),
+    { name: "@acme/pkg", version: "1.2.0", license: "MIT", repository },
+  );
+  assertEquals(
+    createNpmPackageJson(
+      { name: "@acme/pkg", version: "1.2.0", description: "Acme" },
+      { name: "acme-pkg", package: { engines: { node: ">=18" } } },
+    ),
+    { name: "acme-pkg", version: "1.2.0", description: "Acme", engines: { node: ">=18" } },
+  );
+});
+
+Deno.test("createNpmAdapter - detects a Deno package when npm.build is set", async () => {
+  const path = await Deno.makeTempDir();
+  await Deno.writeTextFile(
+    join(path, "deno.jsonc"),
+    '{\n  // Built for npm\n  "name": "@acme/pkg",\n  "version": "1.0.0"\n}\n',
+  );
+
+  try {
+    assertEquals((await createNpmAdapter().detect(path)).ok, false);
+
+    const adapter = createNpmAdapter({ build: { name: "acme-pkg" } });
+    assertEquals(await adapter.detect(path), {
+      ok: true,
+      value: {
+        name: "acme-pkg",
+        version: "1.0.0",
+        registry: "npm",
+        path,
+        manifestPath: join(path, "deno.jsonc"),
+      },
+    });
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("createNpmAdapter - validates what a Deno package is built from", async () => {
+  const path = await Deno.makeTempDir();
+  await Deno.writeTextFile(
+    join(path, "deno.json"),
+    JSON.stringify({ name: "@acme/pkg", version: "1.0.0", exports: { ".": "./mod.ts" } }),
+  );
+  const logger = new Logger(false);
+
+  try {
+    const adapter = createNpmAdapter({ build: {} });
+    const detected = await adapter.detect(path);
+    if (!detected.ok) throw detected.error;
+    const pkg = detected.value;
+
+    const missing = await adapter.validate!(pkg, logger);
+    assertEquals(missing.ok, false);
+    if (!missing.ok) assertEquals((missing.error as PublishError).code, "NPM_CONFIG_INVALID");
+
+    await Deno.writeTextFile(join(path, "mod.ts"), "export const a = 1;\n");
+    assertEquals((await adapter.validate!(pkg, logger)).ok, true);
+    assertEquals((await adapter.validate!({ ...pkg, name: "Acme Pkg" }, logger)).ok, false);
+
+    const conflicting = await createNpmAdapter(
+      { build: { package: { publishConfig: { registry: "https://npm.acme.dev" } } } },
+      { name: "github", registryUrl: "https://npm.pkg.github.com" },
+    ).validate!(pkg, logger);
+    assertEquals(conflicting.ok, false);
+    if (!conflicting.ok) {
+      assertEquals((conflicting.error as PublishError).code, "NPM_REGISTRY_CONFLICT");
+    }
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests for npm registry resolution module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import {
+  getAuthTokenKey,
+  getNpmTargets,
+  parseNpmrc,
+  resolveNpmRegistry,
+  validateNpmConfigUrls,
+} from "../src/npm_registry.ts";
+import { createNpmAdapter, isOtpError, publishToNpm, RegistryType } from "../src/registry.ts";
+import { isCommandAvailable, Logger, PublishError } from "../src/utils.ts";
+
+/**
+ * Create a temporary package with the given package.json and optional .npmrc
+ */
+async function createPackage(manifest: Record<string, unknown>, npmrc?: string) {
+  const path = await Deno.makeTempDir();
+  const manifestPath = join(path, "package.json");
+  await Deno.writeTextFile(manifestPath, JSON.stringify(manifest));
+  if (npmrc !== undefined) {
+    await Deno.writeTextFile(join(path, ".npmrc"), npmrc);
+  }
+
+  return {
+    name: manifest.name as string,
+    version: manifest.version as string,
+    registry: RegistryType.NPM as string,
+    path,
+    manifestPath,
+  };
+}
+
+/**
+ * Start a Verdaccio-style stand-in that records publishes and serves packuments
+ */
+function startMockNpmRegistry(token: string, otp?: string) {
+  const published: string[] = [];
+
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    if (req.headers.get("authorization") !== `Bearer ${token}`) {
+      await req.body?.cancel();
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (req.method === "PUT" && otp && req.headers.get("npm-otp") !== otp) {
+      await req.body?.cancel();
+      return new Response("OTP required", { status: 401, headers: { "www-authenticate": "OTP" } });
+    }
+
+    if (req.method === "PUT") {
+      await req.body?.cancel();
+      published.push(new URL(req.url).pathname);
+      return Response.json({ ok: true }, { status: 201 });
+    }
+
+    return Response.json({ versions: { "1.0.0": {} } });
+  });
+
+  return { server, published, url: `http://127.0.0.1:${server.addr.port}/` };
+}
+
+Deno.test("parseNpmrc - reads settings and expands environment variables", () => {
+  Deno.env.set("PUBLISHJS_TEST_NPMRC", "abc");
+  try {
+    const values = parseNpmrc(
+      "# comment\nregistry=https://r.example.com/\n@acme:registry = https://acme.example.com\n" +
+        "//acme.example.com/:_authToken=${PUBLISHJS_TEST_NPMRC}\n",
+    );
+
+    assertEquals(values.registry, "https://r.example.com/");
+    assertEquals(values["@acme:registry"], "https://acme.example.com");
+    assertEquals(values["//acme.example.com/:_authToken"], "abc");
+  } finally {
+    Deno.env.delete("PUBLISHJS_TEST_NPMRC");
+  }
+});
+
+Deno.test("getAuthTokenKey - builds the nerf-darted key", () => {
+  assertEquals(getAuthTokenKey("https://npm.pkg.github.com"), "//npm.pkg.github.com/:_authToken");
+  assertEquals(
+    getAuthTokenKey("https://art.example.com/api/npm/npm-local/"),
+    "//art.example.com/api/npm/npm-local/:_authToken",
+  );
+});
+
+Deno.test("getNpmTargets - defaults to a single npm target", () => {
+  assertEquals(getNpmTargets({}), [{ name: "npm" }]);
+  assertEquals(
+    getNpmTargets({ targets: [{ registryUrl: "https://npm.pkg.github.com", tokenEnv: "T" }] }),
+    [{ name: "npm.pkg.github.com", registryUrl: "https://npm.pkg.github.com", tokenEnv: "T" }],
+  );
+});
+
+Deno.test("validateNpmConfigUrls - rejects malformed registry URLs", () => {
+  const valid = validateNpmConfigUrls({
+    registryUrl: "https://registry.example.com",
+    scopes: { "@acme": "http://localhost:4873" },
+    targets: [{ registryUrl: "https://npm.pkg.github.com" }],
+  });
+  assertEquals(valid.ok, true);
+
+  for (
+    const config of [
+      { targets: [{ registryUrl: "" }] },
+      { targets: [{ registryUrl: "npm.pkg.github.com" }] },
+      { scopes: { "@acme": "ftp://example.com" } },
+      { registryUrl: "not a url" },
+    ]
+  ) {
+    const result = validateNpmConfigUrls(config);
+    assertEquals(!result.ok && (result.error as PublishError).code, "CONFIG_INVALID");
+  }
+});
+
+Deno.test("resolveNpmRegistry - publishConfig takes precedence", async () => {
+  const pkg = await createPackage(
+    {
+      name: "@acme/pkg",
+      version: "1.0.0",
+      publishConfig: { registry: "https://pinned.example.com" },
+    },
+    "@acme:registry=https://acme.example.com\n",
+  );
+
+  try {
+    assertEquals(
+      await resolveNpmRegistry(pkg, { registryUrl: "https://default.example.com" }),
+      "https://pinned.example.com/",
+    );
+  } finally {
+    await Deno.remove(pkg.path, { recursive: true });
+  }
+});
+
+Deno.test("resolveNpmRegistry - maps scopes from config and .npmrc", async () => {
+  const pkg = await createPackage(
+    { name: "@acme/pkg", version: "1.0.0" },
+    "@acme:registry=https://acme.example.com\n",
+  );
+
+  try {
+    assertEquals(await resolveNpmRegistry(pkg), "https://acme.example.com/");
+    assertEquals(
+      await resolveNpmRegistry(pkg, { scopes: { "@acme": "https://mapped.example.com" } }),
+      "https://mapped.example.com/",
+    );
+  } finally {
+    await Deno.remove(pkg.path, { recursive: true });
+  }
+});
+
+Deno.test("createNpmAdapter - rejects publishConfig pinned to another registry", async () => {
+  const pkg = await createPackage({
+    name: "@acme/pkg",
+    version: "1.0.0",
+    publishConfig: { registry: "https://pinned.example.com" },
+  });
+  const adapter = createNpmAdapter({}, { name: "other", registryUrl: "https://other.example.com" });
+
+  try {
+    const result = await adapter.validate!(pkg, new Logger(false));
+    assertEquals(result.ok, false);
+  } finally {
+    await Deno.remove(pkg.path, { recursive: true });
+  }
+});
+
+Deno.test({
+  name: "createNpmAdapter - publishes to a custom registry with the target's token",
+  ignore: !(await isCommandAvailable("npm")),
+  fn: async () => {
+    const mock = startMockNpmRegistry("secret-token");
+    const pkg = await createPackage({ name: "@acme/pkg", version: "1.1.0" });
+    Deno.env.set("PUBLISHJS_TEST_TOKEN", "secret-token");
+
+    try {
+      const adapter = createNpmAdapter({}, {
+        name: "verdaccio",
+        registryUrl: mock.url,
+        tokenEnv: "PUBLISHJS_TEST_TOKEN",
+      });
+      const detected = await adapter.detect(pkg.path);
+      if (!detected.ok) throw detected.error;
+      assertEquals(detected.value.registry, "npm:verdaccio");
+
+      const published = await adapter.isPublished(detected.value);
+      assertEquals(published.ok && published.value, false);
+
+      const result = await adapter.publish(detected.value);
+      if (!result.ok) throw result.error;
+      assertEquals(mock.published, ["/@acme%2fpkg"]);
+    } finally {
+      Deno.env.delete("PUBLISHJS_TEST_TOKEN");
+      await mock.server.shutdown();
+      await Deno.remove(pkg.path, { recursive: true });
+    }
+  },
+});
+
+Deno.test("isOtpError - detects npm one-time password failures", () => {
+  assertEquals(isOtpError("npm error code EOTP"), true);
+  assertEquals(isOtpError("This operation requires a one-time password"), true);
+  assertEquals(isOtpError("npm error code E403"), false);
+});
+
+Deno.test({
+  name: "publishToNpm - sends the one-time password and asks for one when missing",
+  ignore: !(await isCommandAvailable("npm")) || Deno.stdin.isTerminal(),
+  fn: async () => {
+    const mock = startMockNpmRegistry("secret-token", "123456");
+    const pkg = await createPackage({ name: "@acme/pkg", version: "1.1.0" });
+
+    try {
+      const missing = await publishToNpm(pkg.path, undefined, {
+        registryUrl: mock.url,
+        token: "secret-token",
+      });
+      assertEquals(!missing.ok && (missing.error as PublishError).code, "NPM_OTP_REQUIRED");
+      assertEquals(mock.published, []);
+
+      const options = { registryUrl: mock.url, token: "secret-token", otp: "123456" };
+      const result = await publishToNpm(pkg.path, undefined, options);
+      if (!result.ok) throw result.error;
+      assertEquals(mock.published, ["/@acme%2fpkg"]);
+    } finally {
+      await mock.server.shutdown();
+      await Deno.remove(pkg.path, { recursive: true });
+    }
+  },
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for npm package.json validator module
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  getManifestPaths,
+  normalizeRepositoryUrl,
+  validateNpmConfig,
+  validateNpmName,
+} from "../src/npm_validator.ts";
+import { executeCommand } from "../src/utils.ts";
+import { createProject } from "./test_utils.ts";
+
+/**
+ * Create a temporary package in a Git repository with an origin remote
+ */
+async function createPackage(
+  manifest: Record<string, unknown>,
+  files: string[] = [],
+): Promise<string> {
+  const path = await createProject({
+    "package.json": manifest,
+    ...Object.fromEntries(files.map((file) => [file, ""])),
+  });
+
+  await executeCommand("git", ["init", "-q"], { cwd: path });
+  await executeCommand("git", ["remote", "add", "origin", "git@github.com:acme/pkg.git"], {
+    cwd: path,
+  });
+  return path;
+}
+
+Deno.test("validateNpmName - follows npm naming rules", () => {
+  assertEquals(validateNpmName("my-package"), true);
+  assertEquals(validateNpmName("@acme/my.package"), true);
+  assertEquals(validateNpmName("My-Package"), false);
+  assertEquals(validateNpmName(".hidden"), false);
+  assertEquals(validateNpmName("has space"), false);
+  assertEquals(validateNpmName("@acme/"), false);
+});
+
+Deno.test("normalizeRepositoryUrl - compares URLs and shorthands", () => {
+  assertEquals(
+    normalizeRepositoryUrl("git+https://github.com/acme/pkg.git"),
+    "github.com/acme/pkg",
+  );
+  assertEquals(normalizeRepositoryUrl("git@github.com:acme/pkg.git"), "github.com/acme/pkg");
+  assertEquals(normalizeRepositoryUrl("ssh://git@github.com/acme/pkg"), "github.com/acme/pkg");
+  assertEquals(normalizeRepositoryUrl("acme/pkg"), "github.com/acme/pkg");
+  assertEquals(normalizeRepositoryUrl("gitlab:acme/pkg"), "gitlab.com/acme/pkg");
+});
+
+Deno.test("getManifestPaths - collects entry points including nested exports", () => {
+  assertEquals(
+    getManifestPaths({
+      main: "./dist/index.cjs",
+      bin: { pkg: "./bin/cli.js" },
+      exports: {
+        ".": { import: "./dist/index.js", types: "./dist/index.d.ts" },
+        "./utils/*": "./dist/utils/*.js",
+      },
+    }),
+    [
+      { field: ["main"], path: "./dist/index.cjs" },
+      { field: ["bin", "pkg"], path: "./bin/cli.js" },
+      { field: ["exports", ".", "import"], path: "./dist/index.js" },
+      { field: ["exports", ".", "types"], path: "./dist/index.d.ts" },
+    ],
+  );
+});
+
+Deno.test("validateNpmConfig - reports missing entry points and a foreign repository", async () => {
+  const path = await createPackage(
+    {
+      name: "@acme/pkg",
+      version: "1.0.0",
+      main: "./dist/index.js",
+      types: "./dist/index.d.ts",
+      repository: { type: "git", url: "git+https://github.com/other/pkg.git" },
+      type: "module",
+    },
+    ["dist/index.js"],
+  );
+
+  try {
+    const result = await validateNpmConfig(path);
+    if (!result.ok) throw result.error;
+    const validation = result.value;
+
+    assertEquals(validation.isValid, false);
+    assertEquals(validation.missingPaths, [{ field: ["types"], path: "./dist/index.d.ts" }]);
+    assertEquals(validation.repositoryMatches, false);
+    assertEquals(validation.hasFileList, false);
+    assertEquals(validation.hasLicense, false);
+    assertEquals(validation.hasEngines, false);
+    assertEquals(validation.hasValidType, true);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("validateNpmConfig - entry points built by prepack are only recommendations", async () => {
+  const path = await createPackage({
+    name: "@acme/pkg",
+    version: "1.0.0",
+    main: "./dist/index.js",
+    scripts: { prepack: "tsc" },
+    files: ["dist"],
+    license: "MIT",
+    repository: "github:acme/pkg",
+    engines: { node: ">=18" },
+    type: "module",
+  });
+
+  try {
+    const result = await validateNpmConfig(path);
+    if (!result.ok) throw result.error;
+
+    assertEquals(result.value.isValid, true);
+    assertEquals(result.value.suggestions, [
+      "'main' points to a missing file: ./dist/index.js (make sure the build creates it)",
+    ]);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for pack module
+ */
+
+import { assertEquals } from "@std/assert";
+import { diffPackContents, parseDenoPublishFiles } from "../src/pack.ts";
+
+Deno.test("parseDenoPublishFiles - extracts the simulated upload", () => {
+  const output = [
+    "Checking for slow types in the public API...",
+    "Simulating publish of @acme/demo@1.0.0 with files:",
+    "   file:///work/demo/deno.json (77B)",
+    "   file:///work/demo/src/mod.ts (1.2KB)",
+    "Success Dry run complete",
+  ].join("\n");
+
+  assertEquals(parseDenoPublishFiles(output), [
+    "file:///work/demo/deno.json",
+    "file:///work/demo/src/mod.ts",
+  ]);
+});
+
+Deno.test("diffPackContents - reports added, removed and resized files", () => {
+  const previous = {
+    files: [
+      { path: "index.js", size: 100 },
+      { path: "old.js", size: 50 },
+      { path: "package.json", size: 40 },
+    ],
+    totalSize: 190,
+  };
+  const current = {
+    files: [
+      { path: ".env.example", size: 20 },
+      { path: "index.js", size: 120 },
+      { path: "package.json", size: 40 },
+    ],
+    totalSize: 180,
+  };
+
+  assertEquals(diffPackContents(current, previous, "v1.0.0"), {
+    baseline: "v1.0.0",
+    added: [{ path: ".env.example", size: 20 }],
+    removed: [{ path: "old.js", size: 50 }],
+    changed: [{ path: "index.js", size: 120, previousSize: 100 }],
+    sizeDelta: -10,
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for package manager module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import {
+  detectPackageManager,
+  getPublishCommand,
+  PackageManager,
+  parsePackageManager,
+} from "../src/package_manager.ts";
+import { PublishError } from "../src/utils.ts";
+import { createProject } from "./test_utils.ts";
+
+Deno.test("parsePackageManager - reads name and version", () => {
+  assertEquals(parsePackageManager("pnpm@9.1.0"), {
+    manager: PackageManager.PNPM,
+    version: "9.1.0",
+  });
+  assertEquals(parsePackageManager("yarn@4.2.2+sha224.abc"), {
+    manager: PackageManager.YARN,
+    version: "4.2.2",
+  });
+  assertEquals(parsePackageManager("bun"), { manager: PackageManager.BUN, version: undefined });
+  assertEquals(parsePackageManager("deno"), null);
+});
+
+Deno.test("detectPackageManager - finds the workspace lockfile from a member", async () => {
+  const root = await createProject({
+    "pnpm-lock.yaml": "lockfileVersion: '9.0'\n",
+    "packages/a/package.json": JSON.stringify({ name: "a", version: "1.0.0" }),
+  });
+
+  try {
+    const result = await detectPackageManager(join(root, "packages/a"));
+    assertEquals(result.ok && result.value, {
+      manager: PackageManager.PNPM,
+      version: undefined,
+      source: "pnpm-lock.yaml",
+    });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("detectPackageManager - prefers the packageManager field over lockfiles", async () => {
+  const root = await createProject({
+    "package.json": JSON.stringify({ name: "a", packageManager: "yarn@1.22.22" }),
+    "package-lock.json": "{}",
+  });
+
+  try {
+    const result = await detectPackageManager(root);
+    assertEquals(result.ok && result.value.manager, PackageManager.YARN);
+    assertEquals(result.ok && result.value.version, "1.22.22");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("detectPackageManager - config override wins", async () => {
+  const root = await createProject({ "yarn.lock": "# yarn lockfile v1\n" });
+
+  try {
+    const result = await detectPackageManager(root, "bun");
+    assertEquals(result.ok && result.value, {
+      manager: PackageManager.BUN,
+      version: undefined,
+      source: "publishjs.json",
+    });
+
+    const invalid = await detectPackageManager(root, "deno");
+    assertEquals(!invalid.ok && (invalid.error as PublishError).code, "PACKAGE_MANAGER_INVALID");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("getPublishCommand - uses each tool's publish command", () => {
+  const registry = "https://npm.example.com/";
+
+  const pnpm = getPublishCommand({ manager: PackageManager.PNPM, source: "" }, registry, "t");
+  assertEquals([pnpm.command, ...pnpm.args], [
+    "pnpm",
+    "publish",
+    "--registry",
+    registry,
+    "--no-git-checks",
+  ]);
+  assertEquals(pnpm.env, { "npm_config_//npm.example.com/:_authToken": "t" });
+
+  const berry = getPublishCommand({ manager: PackageManager.YARN, source: "" }, registry, "t");
+  assertEquals([berry.command, ...berry.args], ["yarn", "npm", "publish"]);
+  assertEquals(berry.env, { YARN_NPM_PUBLISH_REGISTRY: registry, YARN_NPM_AUTH_TOKEN: "t" });
+
+  const classic = getPublishCommand({ manager: PackageManager.YARN, version: "1", source: "" });
+  assertEquals([classic.command, ...classic.args], ["yarn", "publish", "--non-interactive"]);
+
+  const npm = getPublishCommand({ manager: PackageManager.NPM, source: "" });
+  assertEquals([npm.command, ...npm.args], ["npm", "publish"]);
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the publish workflow (dry runs against a local origin)
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { publish, PublishOptions } from "../src/publisher.ts";
+import { PublishError, Result } from "../src/utils.ts";
+import { createRepository, git } from "./test_utils.ts";
+
+/**
+ * Create a repository with a pushed publishjs.json (no gates) and a Git identity
+ */
+async function createPublishRepository(
+  config: Record<string, unknown> = {},
+): Promise<{ root: string; path: string; origin: string }> {
+  const repository = await createRepository();
+  const { path } = repository;
+
+  await git(path, "config", "user.name", "Test");
+  await git(path, "config", "user.email", "test@example.com");
+  await Deno.writeTextFile(join(path, "publishjs.json"), JSON.stringify({ gates: [], ...config }));
+  await git(path, "add", "publishjs.json");
+  await git(path, "commit", "-q", "-m", "chore: configure publishjs");
+  await git(path, "push", "-q", "origin", "main");
+  return repository;
+}
+
+/**
+ * Run a dry-run publish without registries and collect what it logs
+ */
+async function dryRun(
+  options: Partial<PublishOptions>,
+  path: string,
+): Promise<{ result: Result<void>; output: string[] }> {
+  const output: string[] = [];
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = (...args: unknown[]) => output.push(args.join(" "));
+
+  try {
+    const result = await publish(
+      { dryRun: true, skipRegistries: true, release: false, ...options },
+      path,
+    );
+    return { result, output };
+  } finally {
+    console.log = log;
+    console.warn = warn;
+    console.error = error;
+  }
+}
+
+Deno.test("publish - pushes a tag with its branch only if the branch contains it", async () => {
+  const { root, path } = await createPublishRepository();
+
+  try {
+    await git(path, "tag", "v1.0.0");
+    await git(path, "checkout", "-q", "-b", "hotfix");
+    await git(path, "commit", "-q", "--allow-empty", "-m", "fix: hotfix");
+    await git(path, "tag", "v1.0.1");
+    await git(path, "checkout", "-q", "main");
+
+    const onBranch = await dryRun({ tag: "v1.0.0" }, path);
+    assertEquals(onBranch.result.ok, true);
+    assertEquals(
+      onBranch.output.some((line) =>
+        line.endsWith("Would push: main and v1.0.0 (atomic) → origin")
+      ),
+      true,
+    );
+
+    const offBranch = await dryRun({ tag: "v1.0.1" }, path);
+    assertEquals(offBranch.result.ok, true);
+    assertEquals(
+      offBranch.output.some((line) => line.endsWith("Would push: v1.0.1 → origin")),
+      true,
+    );
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("publish - checks the upstream of the branch pushed with the tag", async () => {
+  const { root, path, origin } = await createPublishRepository();
+
+  try {
+    const other = join(root, "other");
+    await git(root, "clone", "-q", origin, other);
+    await git(other, "commit", "-q", "--allow-empty", "-m", "fix: concurrent");
+    await git(other, "push", "-q", "origin", "main");
+
+    // Not the selected branch, but pushed with the new tag
+    const { result, output } = await dryRun({ createTag: "v1.0.0" }, path);
+    assertEquals(!result.ok && (result.error as PublishError).code, "BRANCH_BEHIND");
+    assertEquals(
+      output.some((line) => line.endsWith("main is 1 commit(s) behind origin/main")),
+      true,
+    );
+
+    // A tag that isn't in the branch's history is pushed alone
+    await git(path, "checkout", "-q", "-b", "hotfix");
+    await git(path, "commit", "-q", "--allow-empty", "-m", "fix: hotfix");
+    await git(path, "tag", "v0.9.1");
+    await git(path, "checkout", "-q", "main");
+    assertEquals((await dryRun({ tag: "v0.9.1" }, path)).result.ok, true);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("publish - shows what a force push discards and guards protected branches", async () => {
+  const { root, path, origin } = await createPublishRepository();
+
+  try {
+    const other = join(root, "other");
+    await git(root, "clone", "-q", origin, other);
+    await git(other, "commit", "-q", "--allow-empty", "-m", "fix: concurrent");
+    await git(other, "push", "-q", "origin", "main");
+    await git(path, "fetch", "-q", "origin");
+    await git(path, "commit", "-q", "--allow-empty", "-m", "fix: local");
+
+    const { result, output } = await dryRun({ branch: "main", force: true }, path);
+    assertEquals(result.ok, true);
+    assertEquals(
+      output.some((line) =>
+        line.endsWith("Force pushing main discards 1 commit(s) from origin/main:")
+      ),
+      true,
+    );
+    assertEquals(output.some((line) => line.endsWith("fix: concurrent")), true);
+    assertEquals(
+      output.some((line) =>
+        line.endsWith('Would ask to type "main" to force push the protected branch')
+      ),
+      true,
+    );
+    assertEquals(output.some((line) => line.endsWith("Would force push: main → origin")), true);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("publish - keeps releases on the release branches unless overridden", async () => {
+  const { root, path } = await createPublishRepository({ releaseBranches: ["main"] });
+
+  try {
+    await git(path, "checkout", "-q", "-b", "experiment");
+    await git(path, "commit", "-q", "--allow-empty", "-m", "feat: experiment");
+    await git(path, "push", "-q", "-u", "origin", "experiment");
+
+    const blocked = await dryRun({ createTag: "v2.0.0-rc.1" }, path);
+    assertEquals(
+      !blocked.result.ok && (blocked.result.error as PublishError).code,
+      "BRANCH_NOT_ALLOWED",
+    );
+
+    const { result, output } = await dryRun(
+      { createTag: "v2.0.0-rc.1", overrideBranchPolicy: "Release candidate for QA" },
+      path,
+    );
+    assertEquals(result.ok, true);
+    const overrides = output.filter((line) =>
+      line.endsWith(
+        "Release branch policy overridden by Test <test@example.com>: Release candidate for QA",
+      )
+    );
+    // Once when checked, once more in the summary
+    assertEquals(overrides.length, 2);
+    assertEquals(
+      output.some((line) =>
+        line.endsWith("Would push: experiment and v2.0.0-rc.1 (atomic) → origin")
+      ),
+      true,
+    );
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -3,7 +3,15 @@
  */
 
 import { assertEquals } from "@std/assert";
-import { getRegistryName, RegistryType } from "../src/registry.ts";
+import { join } from "@std/path";
+import {
+  getRegistryName,
+  isVersionPublished,
+  loadRegistryAdapters,
+  RegistryType,
+  validatePackage,
+} from "../src/registry.ts";
+import { PublishError } from "../src/utils.ts";
 
 Deno.test("getRegistryName - returns npm for NPM registry", () => {
   assertEquals(getRegistryName(RegistryType.NPM), "npm");
@@ -16,3 +24,216 @@ Deno.test("getRegistryName - returns JSR for JSR registry", () => {
 // Note: Tests for detectNpmPackage and detectJsrPackage would require
 // creating temporary files, which is more complex. These would be
 // integration tests rather than unit tests.
+
+/**
+ * Start a local registry stand-in that answers with the given routes
+ */
+function startMockRegistry(routes: Record<string, unknown>) {
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, (req) => {
+    const body = routes[new URL(req.url).pathname];
+    return body === undefined ? new Response("Not Found", { status: 404 }) : Response.json(body);
+  });
+
+  return { server, url: `http://127.0.0.1:${server.addr.port}` };
+}
+
+Deno.test("isVersionPublished - finds published npm version", async () => {
+  const mock = startMockRegistry({
+    "/@scope%2Fpkg": { name: "@scope/pkg", versions: { "1.0.0": {} } },
+  });
+
+  try {
+    const info = {
+      name: "@scope/pkg",
+      version: "1.0.0",
+      registry: RegistryType.NPM,
+      path: ".",
+      manifestPath: "package.json",
+    };
+
+    const published = await isVersionPublished(info, { npmRegistryUrl: mock.url });
+    assertEquals(published.ok && published.value, true);
+
+    const unpublished = await isVersionPublished(
+      { ...info, version: "1.1.0" },
+      { npmRegistryUrl: mock.url },
+    );
+    assertEquals(unpublished.ok && unpublished.value, false);
+  } finally {
+    await mock.server.shutdown();
+  }
+});
+
+Deno.test("isVersionPublished - treats unknown npm package as unpublished", async () => {
+  const mock = startMockRegistry({});
+
+  try {
+    const result = await isVersionPublished(
+      {
+        name: "new-pkg",
+        version: "0.1.0",
+        registry: RegistryType.NPM,
+        path: ".",
+        manifestPath: "",
+      },
+      { npmRegistryUrl: mock.url },
+    );
+    assertEquals(result.ok && result.value, false);
+  } finally {
+    await mock.server.shutdown();
+  }
+});
+
+Deno.test("isVersionPublished - reports a non-JSON npm response", async () => {
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    () => new Response("<html>Bad Gateway</html>", { headers: { "Content-Type": "text/html" } }),
+  );
+
+  try {
+    const result = await isVersionPublished(
+      {
+        name: "pkg",
+        version: "1.0.0",
+        registry: RegistryType.NPM,
+        path: ".",
+        manifestPath: "package.json",
+      },
+      { npmRegistryUrl: `http://127.0.0.1:${server.addr.port}` },
+    );
+    assertEquals(result.ok, false);
+    assertEquals(!result.ok && (result.error as PublishError).code, "VERSION_CHECK_FAILED");
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("isVersionPublished - checks JSR package versions", async () => {
+  const mock = startMockRegistry({
+    "/scopes/scope/packages/pkg/versions/1.0.0": { version: "1.0.0" },
+  });
+
+  try {
+    const info = {
+      name: "@scope/pkg",
+      version: "1.0.0",
+      registry: RegistryType.JSR,
+      path: ".",
+      manifestPath: "deno.json",
+    };
+
+    const published = await isVersionPublished(info, { jsrApiUrl: mock.url });
+    assertEquals(published.ok && published.value, true);
+
+    const unpublished = await isVersionPublished(
+      { ...info, version: "2.0.0" },
+      { jsrApiUrl: mock.url },
+    );
+    assertEquals(unpublished.ok && unpublished.value, false);
+  } finally {
+    await mock.server.shutdown();
+  }
+});
+
+Deno.test("isVersionPublished - reports unreachable registry", async () => {
+  const result = await isVersionPublished(
+    { name: "pkg", version: "1.0.0", registry: RegistryType.NPM, path: ".", manifestPath: "" },
+    { npmRegistryUrl: "http://127.0.0.1:1" },
+  );
+  assertEquals(result.ok, false);
+});
+
+/**
+ * Write a custom adapter module into a temporary project
+ */
+async function createAdapterProject(source: string): Promise<string> {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(root, "adapter.ts"), source);
+  return root;
+}
+
+const ADAPTER_SOURCE = `
+export default (options) => ({
+  id: "internal",
+  name: "Internal Registry",
+  detect: () => Promise.resolve({ ok: false, error: new Error("not found") }),
+  isPublished: (pkg) => Promise.resolve({ ok: true, value: options.published.includes(pkg.version) }),
+  publish: () => Promise.resolve({ ok: true, value: undefined }),
+});
+`;
+
+Deno.test("loadRegistryAdapters - returns built-in adapters without config", async () => {
+  const result = await loadRegistryAdapters({});
+  assertEquals(result.ok && result.value.map((a) => a.id), [RegistryType.NPM, RegistryType.JSR]);
+});
+
+Deno.test("loadRegistryAdapters - rejects a malformed npm target registry URL", async () => {
+  const result = await loadRegistryAdapters({ npm: { targets: [{ registryUrl: "" }] } });
+  assertEquals(!result.ok && (result.error as PublishError).code, "CONFIG_INVALID");
+});
+
+Deno.test("loadRegistryAdapters - loads custom adapters from config", async () => {
+  const root = await createAdapterProject(ADAPTER_SOURCE);
+
+  try {
+    const result = await loadRegistryAdapters(
+      { registries: [{ module: "./adapter.ts", options: { published: ["1.0.0"] } }] },
+      root,
+    );
+    if (!result.ok) throw result.error;
+
+    const adapter = result.value[2];
+    assertEquals(adapter.name, "Internal Registry");
+
+    const pkg = {
+      name: "pkg",
+      version: "1.0.0",
+      registry: "internal",
+      path: root,
+      manifestPath: "",
+    };
+    const validation = await validatePackage(adapter, pkg);
+    assertEquals(!validation.ok && (validation.error as PublishError).code, "VERSION_EXISTS");
+
+    const next = await validatePackage(adapter, { ...pkg, version: "1.1.0" });
+    assertEquals(next.ok, true);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("loadRegistryAdapters - rejects modules that don't implement the contract", async () => {
+  const root = await createAdapterProject(`export default { id: "broken", name: "Broken" };`);
+
+  try {
+    const result = await loadRegistryAdapters({ registries: [{ module: "./adapter.ts" }] }, root);
+    assertEquals(!result.ok && (result.error as PublishError).code, "ADAPTER_INVALID");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("loadRegistryAdapters - rejects ids used by another adapter", async () => {
+  const root = await createAdapterProject(ADAPTER_SOURCE.replace('"internal"', '"npm"'));
+
+  try {
+    const result = await loadRegistryAdapters({ registries: [{ module: "./adapter.ts" }] }, root);
+    assertEquals(!result.ok && (result.error as PublishError).code, "ADAPTER_CONFLICT");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("loadRegistryAdapters - reports a throwing adapter factory", async () => {
+  const root = await createAdapterProject(
+    `export default () => { throw new Error("missing token"); };`,
+  );
+
+  try {
+    const result = await loadRegistryAdapters({ registries: [{ module: "./adapter.ts" }] }, root);
+    assertEquals(!result.ok && (result.error as PublishError).code, "ADAPTER_LOAD_FAILED");
+    assertEquals(!result.ok && result.error.message.includes("./adapter.ts"), true);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
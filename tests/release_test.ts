@@ -0,0 +1,121 @@
+/**
+ * Tests for release module
+ */
+
+import { assertEquals } from "@std/assert";
+import { createRelease, isPrereleaseTag } from "../src/release.ts";
+import { RemoteInfo, RemotePlatform } from "../src/remote.ts";
+
+/**
+ * Start a local stand-in for the platform API that records the last request
+ */
+function startMockApi(response: Record<string, unknown>, status = 201) {
+  const requests: { url: string; headers: Headers; body: Record<string, unknown> }[] = [];
+
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    requests.push({ url: new URL(req.url).pathname, headers: req.headers, body: await req.json() });
+    return Response.json(response, { status });
+  });
+
+  return { server, requests, url: `http://127.0.0.1:${server.addr.port}` };
+}
+
+const GITHUB_REMOTE: RemoteInfo = {
+  name: "origin",
+  url: "https://github.com/octocat/hello.git",
+  platform: RemotePlatform.GITHUB,
+  owner: "octocat",
+  repo: "hello",
+};
+
+Deno.test("isPrereleaseTag - detects prerelease versions", () => {
+  assertEquals(isPrereleaseTag("v2.0.0-rc.1"), true);
+  assertEquals(isPrereleaseTag("v2.0.0"), false);
+  assertEquals(isPrereleaseTag("nightly"), false);
+});
+
+Deno.test("createRelease - creates GitHub release", async () => {
+  const mock = startMockApi({ html_url: "https://github.com/octocat/hello/releases/v1.0.0" });
+
+  try {
+    const result = await createRelease(GITHUB_REMOTE, {
+      tag: "v1.0.0",
+      notes: "### Features\n",
+      prerelease: true,
+      apiUrl: mock.url,
+      token: "test_token",
+    });
+
+    assertEquals(result.ok && result.value, "https://github.com/octocat/hello/releases/v1.0.0");
+    assertEquals(mock.requests[0].url, "/repos/octocat/hello/releases");
+    assertEquals(mock.requests[0].headers.get("authorization"), "Bearer test_token");
+    assertEquals(mock.requests[0].body, {
+      tag_name: "v1.0.0",
+      name: "v1.0.0",
+      body: "### Features\n",
+      draft: false,
+      prerelease: true,
+    });
+  } finally {
+    await mock.server.shutdown();
+  }
+});
+
+Deno.test("createRelease - creates GitLab release", async () => {
+  const mock = startMockApi({
+    _links: { self: "https://gitlab.com/org/sub/project/-/releases/v1.0.0" },
+  });
+
+  try {
+    const result = await createRelease(
+      {
+        name: "origin",
+        url: "git@gitlab.com:org/sub/project.git",
+        platform: RemotePlatform.GITLAB,
+        owner: "org",
+        repo: "sub/project",
+      },
+      { tag: "v1.0.0", notes: "notes", apiUrl: mock.url, token: "gl_token" },
+    );
+
+    assertEquals(result.ok, true);
+    assertEquals(mock.requests[0].url, "/projects/org%2Fsub%2Fproject/releases");
+    assertEquals(mock.requests[0].headers.get("private-token"), "gl_token");
+    assertEquals(mock.requests[0].body.description, "notes");
+  } finally {
+    await mock.server.shutdown();
+  }
+});
+
+Deno.test("createRelease - reports API errors", async () => {
+  const mock = startMockApi({ message: "Validation Failed" }, 422);
+
+  try {
+    const result = await createRelease(GITHUB_REMOTE, {
+      tag: "v1.0.0",
+      notes: "",
+      apiUrl: mock.url,
+      token: "test_token",
+    });
+
+    assertEquals(result.ok, false);
+  } finally {
+    await mock.server.shutdown();
+  }
+});
+
+Deno.test("createRelease - fails without token", async () => {
+  const result = await createRelease(
+    { ...GITHUB_REMOTE, platform: RemotePlatform.OTHER },
+    { tag: "v1.0.0", notes: "", apiUrl: "http://127.0.0.1:1" },
+  );
+  assertEquals(result.ok, false);
+});
+
+Deno.test("createRelease - rejects unsupported platforms", async () => {
+  const result = await createRelease(
+    { ...GITHUB_REMOTE, platform: RemotePlatform.BITBUCKET },
+    { tag: "v1.0.0", notes: "", token: "t" },
+  );
+  assertEquals(result.ok, false);
+});
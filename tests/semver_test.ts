@@ -0,0 +1,96 @@
+/**
+ * Tests for semver module
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  compareSemver,
+  formatSemver,
+  incrementSemver,
+  isReleaseType,
+  parseSemver,
+} from "../src/semver.ts";
+import { computeNextVersion } from "../src/bump.ts";
+
+function next(
+  version: string,
+  release: "major" | "minor" | "patch" | "prerelease",
+  preid?: string,
+) {
+  const result = incrementSemver(version, release, preid);
+  return result.ok ? result.value : null;
+}
+
+Deno.test("parseSemver - parses full version", () => {
+  assertEquals(parseSemver("1.2.3-rc.1+build.5"), {
+    major: 1,
+    minor: 2,
+    patch: 3,
+    prerelease: ["rc", 1],
+    build: ["build", "5"],
+  });
+});
+
+Deno.test("parseSemver - accepts leading v", () => {
+  assertEquals(parseSemver("v2.0.0")?.major, 2);
+});
+
+Deno.test("parseSemver - rejects invalid versions", () => {
+  assertEquals(parseSemver("1.2"), null);
+  assertEquals(parseSemver("01.2.3"), null);
+  assertEquals(parseSemver("latest"), null);
+});
+
+Deno.test("formatSemver - round-trips versions", () => {
+  assertEquals(formatSemver(parseSemver("1.2.3-beta.0")!), "1.2.3-beta.0");
+});
+
+Deno.test("compareSemver - orders by precedence", () => {
+  const sorted = ["1.0.0", "1.0.0-rc.1", "1.0.0-alpha", "0.9.9", "1.0.0-rc.10"]
+    .map((v) => parseSemver(v)!)
+    .sort(compareSemver)
+    .map(formatSemver);
+
+  assertEquals(sorted, ["0.9.9", "1.0.0-alpha", "1.0.0-rc.1", "1.0.0-rc.10", "1.0.0"]);
+});
+
+Deno.test("incrementSemver - bumps major, minor and patch", () => {
+  assertEquals(next("1.2.3", "major"), "2.0.0");
+  assertEquals(next("1.2.3", "minor"), "1.3.0");
+  assertEquals(next("1.2.3", "patch"), "1.2.4");
+});
+
+Deno.test("incrementSemver - releases a pending prerelease", () => {
+  assertEquals(next("2.0.0-rc.1", "major"), "2.0.0");
+  assertEquals(next("1.3.0-rc.1", "minor"), "1.3.0");
+  assertEquals(next("1.2.4-rc.1", "patch"), "1.2.4");
+  assertEquals(next("1.2.4-rc.1", "minor"), "1.3.0");
+});
+
+Deno.test("incrementSemver - increments prerelease identifiers", () => {
+  assertEquals(next("1.2.0-rc.0", "prerelease", "rc"), "1.2.0-rc.1");
+  assertEquals(next("1.2.0-rc.0", "prerelease"), "1.2.0-rc.1");
+  assertEquals(next("1.2.0-beta.3", "prerelease", "rc"), "1.2.0-rc.0");
+  assertEquals(next("1.2.3", "prerelease", "rc"), "1.2.4-rc.0");
+  assertEquals(next("1.2.3", "prerelease"), "1.2.4-0");
+  assertEquals(next("1.2.3-rc", "prerelease"), "1.2.3-rc.0");
+});
+
+Deno.test("incrementSemver - fails for invalid versions", () => {
+  assertEquals(incrementSemver("not-a-version", "patch").ok, false);
+});
+
+Deno.test("isReleaseType - recognizes release types", () => {
+  assertEquals(isReleaseType("minor"), true);
+  assertEquals(isReleaseType("1.0.0"), false);
+});
+
+Deno.test("computeNextVersion - accepts explicit greater version", () => {
+  const result = computeNextVersion("1.2.3", "1.3.0");
+  assertEquals(result.ok && result.value, "1.3.0");
+});
+
+Deno.test("computeNextVersion - rejects explicit lower version", () => {
+  assertEquals(computeNextVersion("1.2.3", "1.2.3").ok, false);
+  assertEquals(computeNextVersion("1.2.3", "foo").ok, false);
+});
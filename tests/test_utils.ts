@@ -0,0 +1,55 @@
+/**
+ * Shared fixtures for the tests (temporary projects and Git repositories)
+ */
+
+import { join } from "@std/path";
+import { executeCommand } from "../src/utils.ts";
+
+export const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "Test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "Test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+/**
+ * Create a temporary project with the given files (objects are written as JSON)
+ */
+export async function createProject(files: Record<string, unknown>): Promise<string> {
+  const path = await Deno.makeTempDir();
+  for (const [file, content] of Object.entries(files)) {
+    await Deno.mkdir(join(path, file, ".."), { recursive: true });
+    await Deno.writeTextFile(
+      join(path, file),
+      typeof content === "string" ? content : JSON.stringify(content, null, 2) + "\n",
+    );
+  }
+  return path;
+}
+
+/**
+ * Run git in a directory, failing the test if it fails
+ */
+export async function git(path: string, ...args: string[]): Promise<string> {
+  const result = await executeCommand("git", args, { cwd: path, env: GIT_IDENTITY });
+  if (!result.ok) throw result.error;
+  return result.value;
+}
+
+/**
+ * Create a repository with one pushed commit and a bare "origin"
+ */
+export async function createRepository(): Promise<
+  { root: string; path: string; origin: string }
+> {
+  const root = await Deno.makeTempDir();
+  const origin = join(root, "origin.git");
+  const path = join(root, "repo");
+
+  await git(root, "init", "-q", "--bare", "-b", "main", origin);
+  await git(root, "init", "-q", "-b", "main", path);
+  await git(path, "remote", "add", "origin", origin);
+  await git(path, "commit", "-q", "--allow-empty", "-m", "initial");
+  await git(path, "push", "-q", "-u", "origin", "main");
+  return { root, path, origin };
+}
@@ -5,6 +5,7 @@
 import { assertEquals, assertExists } from "@std/assert";
 import {
   Err,
+  formatBytes,
   formatList,
   Logger,
   LogLevel,
@@ -104,6 +105,13 @@ Deno.test("formatList - handles empty array", () => {
   assertEquals(result, "");
 });
 
+Deno.test("formatBytes - picks a readable unit", () => {
+  assertEquals(formatBytes(512), "512 B");
+  assertEquals(formatBytes(1536), "1.5 kB");
+  assertEquals(formatBytes(40_000_000), "40.0 MB");
+  assertEquals(formatBytes(-2048), "-2.0 kB");
+});
+
 Deno.test("truncate - does not truncate short strings", () => {
   const result = truncate("short", 10);
   assertEquals(result, "short");
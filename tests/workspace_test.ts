@@ -0,0 +1,122 @@
+/**
+ * Tests for workspace module
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { PublishError } from "../src/utils.ts";
+import {
+  detectWorkspacePackages,
+  sortByDependencies,
+  updateDependents,
+  updateVersionRange,
+} from "../src/workspace.ts";
+import { createProject } from "./test_utils.ts";
+
+Deno.test("updateVersionRange - keeps the range operator", () => {
+  assertEquals(updateVersionRange("^1.2.0", "1.3.0"), "^1.3.0");
+  assertEquals(updateVersionRange("~1.2.0", "1.2.1"), "~1.2.1");
+  assertEquals(updateVersionRange("1.2.0", "2.0.0"), "2.0.0");
+  assertEquals(updateVersionRange("workspace:^1.2.0", "1.3.0"), "workspace:^1.3.0");
+});
+
+Deno.test("updateVersionRange - leaves wildcard ranges alone", () => {
+  assertEquals(updateVersionRange("*", "1.3.0"), null);
+  assertEquals(updateVersionRange("workspace:*", "1.3.0"), null);
+});
+
+Deno.test("detectWorkspacePackages - discovers members and skips private ones", async () => {
+  const root = await createProject({
+    "package.json": { name: "root", private: true, workspaces: ["packages/*", "!packages/b"] },
+    "packages/a/package.json": { name: "a", version: "1.0.0" },
+    "packages/b/package.json": { name: "b", version: "1.0.0" },
+    "packages/c/package.json": { name: "c", version: "1.0.0", private: true },
+  });
+
+  try {
+    const packages = await detectWorkspacePackages(root);
+    assertEquals(packages.map((p) => p.name), ["a"]);
+    assertEquals(packages[0].path, join(root, "packages/a"));
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("sortByDependencies - follows bare imports between Deno members", async () => {
+  const root = await createProject({
+    "deno.json": { workspace: ["./app", "./core"] },
+    "app/deno.json": { name: "@scope/app", version: "1.0.0", exports: "./mod.ts" },
+    "app/mod.ts": 'export * from "./src/run.ts";\n',
+    "app/src/run.ts": 'import { core } from "@scope/core";\nexport const run = core;\n',
+    "core/deno.json": { name: "@scope/core", version: "1.0.0", exports: "./mod.ts" },
+    "core/mod.ts": "export const core = 1;\n",
+  });
+
+  try {
+    const packages = await detectWorkspacePackages(root);
+    assertEquals(packages.map((p) => p.name), ["@scope/app", "@scope/core"]);
+
+    const result = await sortByDependencies(packages);
+    assertEquals(result.ok && result.value.map((p) => p.name), ["@scope/core", "@scope/app"]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("sortByDependencies - publishes dependencies first", async () => {
+  const root = await createProject({
+    "deno.json": { workspace: ["./app", "./core"] },
+    "app/deno.json": {
+      name: "@scope/app",
+      version: "1.0.0",
+      imports: { "@scope/core": "jsr:@scope/core@^1.0.0" },
+    },
+    "core/deno.json": { name: "@scope/core", version: "1.0.0" },
+  });
+
+  try {
+    const packages = await detectWorkspacePackages(root);
+    const result = await sortByDependencies(packages);
+    assertEquals(result.ok && result.value.map((p) => p.name), ["@scope/core", "@scope/app"]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("sortByDependencies - reports dependency cycles", async () => {
+  const root = await createProject({
+    "package.json": { workspaces: ["a", "b"] },
+    "a/package.json": { name: "a", version: "1.0.0", dependencies: { b: "^1.0.0" } },
+    "b/package.json": { name: "b", version: "1.0.0", dependencies: { a: "^1.0.0" } },
+  });
+
+  try {
+    const result = await sortByDependencies(await detectWorkspacePackages(root));
+    assertEquals(!result.ok && (result.error as PublishError).code, "WORKSPACE_CYCLE");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("updateDependents - updates internal ranges", async () => {
+  const root = await createProject({
+    "package.json": { workspaces: ["a", "b"] },
+    "a/package.json": { name: "a", version: "1.1.0" },
+    "b/package.json": {
+      name: "b",
+      version: "1.0.0",
+      dependencies: { a: "^1.0.0", other: "^3.0.0" },
+    },
+  });
+
+  try {
+    const packages = await detectWorkspacePackages(root);
+    const result = await updateDependents(packages, new Map([["a", "1.1.0"]]));
+    assertEquals(result.ok && result.value, [join(root, "b/package.json")]);
+
+    const updated = JSON.parse(await Deno.readTextFile(join(root, "b/package.json")));
+    assertEquals(updated.dependencies, { a: "^1.1.0", other: "^3.0.0" });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});